@@ -9,12 +9,23 @@ export default {
   // SSH Connection
   ssh: {
     host: process.env.SSH_HOST || "server.example.com",
+    // hosts: ["web1.example.com", "web2.example.com"],  // Deploy to several servers
     user: process.env.SSH_USER || "deploy",
     port: 22,
     // Authentication - use ONE of the following:
     privateKeyPath: "~/.ssh/id_ed25519",
     // privateKey: process.env.SSH_KEY,  // For CI/CD (inline key)
     // password: process.env.SSH_PASSWORD,  // Password auth (uses SFTP for upload)
+    // passphrase: process.env.SSH_PASSPHRASE,  // Passphrase of an encrypted key
+    // agent: process.env.SSH_AUTH_SOCK,  // ssh-agent (default), false to disable
+
+    // Host key verification: "yes" | "accept-new" (default) | "no"
+    strictHostKeyChecking: "accept-new",
+    // knownHostsPath: "~/.ssh/known_hosts",
+    // hostFingerprint: "SHA256:...",  // Pin the server key (e.g. in CI)
+
+    // Connect through a bastion (one hop or a chain)
+    // jump: "jump@bastion.example.com:2222",
   },
 
   // Build Settings
@@ -41,14 +52,48 @@ export default {
       // "web.config",           // Add for IIS deployments
     ],
     useRsync: true,  // Falls back to SFTP if rsync not available
+    // delete: true,  // Remove stale files (default: follows --delete in rsyncOptions)
+    // protect: [".env", ".env.*", "uploads/"],  // Never deleted
+    // bandwidthLimit: 2048,  // Upload speed limit in KB/s (rsync and SFTP)
+    // compression: 6,  // true, false or zlib level 1-9 (default: follows -z in rsyncOptions)
+    // SFTP fallback: parallel transfers, unchanged files are skipped
+    // sftp: { concurrency: 4, retries: 2 },
+  },
+
+  // Release Settings
+  releases: {
+    enabled: false,  // Upload into releases/<timestamp>/ and switch the `current` symlink (POSIX only)
+    keep: 5,         // Number of releases kept on the server (used by `pxnship rollback`)
+  },
+
+  // Rollout Settings (used with ssh.hosts)
+  rollout: {
+    strategy: "rolling",  // "rolling" = batchSize hosts at a time, "parallel" = all at once
+    batchSize: 1,
+  },
+
+  // Deploy Lock - stops concurrent deploys to the same server
+  lock: {
+    enabled: true,
+    ttl: 30 * 60 * 1000,  // Locks older than 30 minutes are considered stale
   },
 
+  // Health Check (optional) - probed on the server with curl after PM2 reload
+  // healthCheck: {
+  //   path: "/",             // http://localhost:<pm2.port><path>
+  //   expectedStatus: 200,
+  //   bodyMatch: "ok",       // Response body must contain this text
+  //   timeout: 5000,
+  //   retries: 5,
+  // },
+
   // PM2 Settings
   pm2: {
     appName: "myapp",
-    ecosystem: true,  // true = auto-detect, false = don't use, "filename.js" = specific
+    ecosystem: true,  // true = auto-detect, false = don't use, "generate" = from this config, "filename.js" = specific
     reload: true,     // Use reload instead of restart (zero-downtime)
-    // port: 3000,    // Used when ecosystem is false
+    // port: 3000,    // Used when ecosystem is false or "generate"
+    // timeout: 120000, // Cancel a hanging pm2 start/reload after this many ms
 
     // Environment variables injected when PM2 starts/reloads
     // env: {
@@ -56,5 +101,20 @@ export default {
     //   API_BASE_URL: process.env.API_BASE_URL,
     //   DATABASE_URL: process.env.DATABASE_URL,
     // },
+    // envFile: true,  // Write env to .next/standalone/.env.production (0600) instead of the command line
+    // instances: "max",        // Cluster mode (ecosystem: "generate")
+    // maxMemoryRestart: "512M",
   },
+
+  // Deploy Targets (optional) - select with `pxnship ship --target staging`
+  // Each target is deep-merged over the settings above, .env.<target> is loaded too
+  // targets: {
+  //   staging: {
+  //     ssh: { host: "staging.example.com" },
+  //     pm2: { appName: "myapp-staging", port: 3001 },
+  //   },
+  //   production: {
+  //     ssh: { host: "prod.example.com" },
+  //   },
+  // },
 };
@@ -6,6 +6,15 @@ import { runUpload } from "./commands/upload.js";
 import { runRestart } from "./commands/restart.js";
 import { runShip } from "./commands/ship.js";
 import { runPack } from "./commands/pack.js";
+import { runRollback } from "./commands/rollback.js";
+import { runUnlock } from "./commands/unlock.js";
+import { runHistory } from "./commands/history.js";
+import { runStatus } from "./commands/status.js";
+import { runLogs } from "./commands/logs.js";
+import { runTrust } from "./commands/trust.js";
+import { runDiff } from "./commands/diff.js";
+import { parseSince } from "./lib/logs.js";
+import { getHostConfigs, getJumpHosts } from "./lib/ssh.js";
 import { showBanner, showError, setVerbose } from "./utils/logger.js";
 
 // Read version from package.json
@@ -23,6 +32,11 @@ const buildCommand = defineCommand({
       alias: "c",
       description: "Path to config file",
     },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
     verbose: {
       type: "boolean",
       alias: "v",
@@ -35,7 +49,7 @@ const buildCommand = defineCommand({
     showBanner();
 
     try {
-      const config = await loadConfig({ configPath: args.config });
+      const config = await loadConfig({ configPath: args.config, target: args.target });
       const result = await runBuild(config.build);
 
       if (!result.success) {
@@ -59,6 +73,22 @@ const uploadCommand = defineCommand({
       alias: "c",
       description: "Path to config file",
     },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
+    "dry-run": {
+      type: "boolean",
+      description: "Show what would be uploaded and deleted without changing the server",
+      default: false,
+    },
+    force: {
+      type: "boolean",
+      alias: "f",
+      description: "Upload every file, even if unchanged since the last upload",
+      default: false,
+    },
     verbose: {
       type: "boolean",
       alias: "v",
@@ -71,8 +101,61 @@ const uploadCommand = defineCommand({
     showBanner();
 
     try {
-      const config = await loadConfig({ configPath: args.config });
-      const result = await runUpload(config.ssh, config.upload);
+      const config = await loadConfig({ configPath: args.config, target: args.target });
+      for (const sshConfig of getHostConfigs(config.ssh)) {
+        const result = await runUpload(sshConfig, config.upload, process.cwd(), {
+          dryRun: args["dry-run"],
+          force: args.force,
+        });
+
+        if (!result.success) {
+          process.exit(1);
+        }
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error : new Error(String(error)), args.verbose);
+      process.exit(1);
+    }
+  },
+});
+
+const diffCommand = defineCommand({
+  meta: {
+    name: "diff",
+    description: "Show which files an upload would add, change and delete on the server",
+  },
+  args: {
+    config: {
+      type: "string",
+      alias: "c",
+      description: "Path to config file",
+    },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+    verbose: {
+      type: "boolean",
+      alias: "v",
+      description: "Enable verbose output",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    setVerbose(args.verbose);
+    if (!args.json) {
+      showBanner();
+    }
+
+    try {
+      const config = await loadConfig({ configPath: args.config, target: args.target });
+      const result = await runDiff(config, { json: args.json });
 
       if (!result.success) {
         process.exit(1);
@@ -95,6 +178,11 @@ const restartCommand = defineCommand({
       alias: "c",
       description: "Path to config file",
     },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
     verbose: {
       type: "boolean",
       alias: "v",
@@ -107,11 +195,13 @@ const restartCommand = defineCommand({
     showBanner();
 
     try {
-      const config = await loadConfig({ configPath: args.config });
-      const result = await runRestart(config.ssh, config.pm2);
+      const config = await loadConfig({ configPath: args.config, target: args.target });
+      for (const sshConfig of getHostConfigs(config.ssh)) {
+        const result = await runRestart(sshConfig, config.pm2, undefined, config.healthCheck);
 
-      if (!result.success) {
-        process.exit(1);
+        if (!result.success) {
+          process.exit(1);
+        }
       }
     } catch (error) {
       showError(error instanceof Error ? error : new Error(String(error)), args.verbose);
@@ -131,6 +221,11 @@ const packCommand = defineCommand({
       alias: "c",
       description: "Path to config file",
     },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
     output: {
       type: "string",
       alias: "o",
@@ -153,7 +248,7 @@ const packCommand = defineCommand({
     showBanner();
 
     try {
-      const config = await loadConfig({ configPath: args.config });
+      const config = await loadConfig({ configPath: args.config, target: args.target });
       const result = await runPack(config, process.cwd(), {
         skipBuild: args["skip-build"],
         outputPath: args.output,
@@ -180,6 +275,11 @@ const shipCommand = defineCommand({
       alias: "c",
       description: "Path to config file",
     },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
     "skip-build": {
       type: "boolean",
       description: "Skip the build step",
@@ -190,6 +290,11 @@ const shipCommand = defineCommand({
       description: "Show what would happen without making changes",
       default: false,
     },
+    force: {
+      type: "boolean",
+      description: "Deploy even if another deploy holds the lock",
+      default: false,
+    },
     verbose: {
       type: "boolean",
       alias: "v",
@@ -202,11 +307,318 @@ const shipCommand = defineCommand({
     showBanner();
 
     try {
-      const config = await loadConfig({ configPath: args.config });
+      const config = await loadConfig({ configPath: args.config, target: args.target });
       const result = await runShip(config, {
         skipBuild: args["skip-build"],
         dryRun: args["dry-run"],
         verbose: args.verbose,
+        force: args.force,
+      });
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error : new Error(String(error)), args.verbose);
+      process.exit(1);
+    }
+  },
+});
+
+const rollbackCommand = defineCommand({
+  meta: {
+    name: "rollback",
+    description: "Switch back to a previous release and restart PM2",
+  },
+  args: {
+    config: {
+      type: "string",
+      alias: "c",
+      description: "Path to config file",
+    },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
+    release: {
+      type: "string",
+      alias: "r",
+      description: "Release to activate (default: the one before the current release)",
+    },
+    list: {
+      type: "boolean",
+      alias: "l",
+      description: "List releases kept on the server",
+      default: false,
+    },
+    force: {
+      type: "boolean",
+      description: "Roll back even if a deploy holds the lock",
+      default: false,
+    },
+    verbose: {
+      type: "boolean",
+      alias: "v",
+      description: "Enable verbose output",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    setVerbose(args.verbose);
+    showBanner();
+
+    try {
+      const config = await loadConfig({ configPath: args.config, target: args.target });
+      for (const sshConfig of getHostConfigs(config.ssh)) {
+        const result = await runRollback({ ...config, ssh: sshConfig }, {
+          release: args.release,
+          list: args.list,
+          force: args.force,
+        });
+
+        if (!result.success) {
+          process.exit(1);
+        }
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error : new Error(String(error)), args.verbose);
+      process.exit(1);
+    }
+  },
+});
+
+const unlockCommand = defineCommand({
+  meta: {
+    name: "unlock",
+    description: "Remove a deploy lock left on the server",
+  },
+  args: {
+    config: {
+      type: "string",
+      alias: "c",
+      description: "Path to config file",
+    },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
+    verbose: {
+      type: "boolean",
+      alias: "v",
+      description: "Enable verbose output",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    setVerbose(args.verbose);
+    showBanner();
+
+    try {
+      const config = await loadConfig({ configPath: args.config, target: args.target });
+
+      for (const sshConfig of getHostConfigs(config.ssh)) {
+        const result = await runUnlock(sshConfig, config.upload.remotePath);
+
+        if (!result.success) {
+          process.exit(1);
+        }
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error : new Error(String(error)), args.verbose);
+      process.exit(1);
+    }
+  },
+});
+
+const historyCommand = defineCommand({
+  meta: {
+    name: "history",
+    description: "Show deployments recorded on the server",
+  },
+  args: {
+    config: {
+      type: "string",
+      alias: "c",
+      description: "Path to config file",
+    },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
+    limit: {
+      type: "string",
+      alias: "n",
+      description: "Number of deploys to show",
+      default: "20",
+    },
+    json: {
+      type: "boolean",
+      description: "Print deploys as JSON",
+      default: false,
+    },
+    verbose: {
+      type: "boolean",
+      alias: "v",
+      description: "Enable verbose output",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    setVerbose(args.verbose);
+    if (!args.json) {
+      showBanner();
+    }
+
+    try {
+      const config = await loadConfig({ configPath: args.config, target: args.target });
+      const result = await runHistory(config, {
+        json: args.json,
+        limit: Number.parseInt(args.limit, 10) || undefined,
+      });
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error : new Error(String(error)), args.verbose);
+      process.exit(1);
+    }
+  },
+});
+
+const statusCommand = defineCommand({
+  meta: {
+    name: "status",
+    description: "Show PM2 process status on the server",
+  },
+  args: {
+    config: {
+      type: "string",
+      alias: "c",
+      description: "Path to config file",
+    },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
+    json: {
+      type: "boolean",
+      description: "Print status as JSON",
+      default: false,
+    },
+    watch: {
+      type: "boolean",
+      alias: "w",
+      description: "Refresh status until interrupted",
+      default: false,
+    },
+    interval: {
+      type: "string",
+      alias: "i",
+      description: "Refresh interval in seconds (with --watch)",
+      default: "2",
+    },
+    verbose: {
+      type: "boolean",
+      alias: "v",
+      description: "Enable verbose output",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    setVerbose(args.verbose);
+    if (!args.json && !args.watch) {
+      showBanner();
+    }
+
+    try {
+      const config = await loadConfig({ configPath: args.config, target: args.target });
+      const seconds = Number.parseFloat(args.interval);
+      const result = await runStatus(config, {
+        json: args.json,
+        watch: args.watch,
+        interval: seconds > 0 ? seconds * 1000 : undefined,
+      });
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error : new Error(String(error)), args.verbose);
+      process.exit(1);
+    }
+  },
+});
+
+const logsCommand = defineCommand({
+  meta: {
+    name: "logs",
+    description: "Show PM2 logs from the server",
+  },
+  args: {
+    config: {
+      type: "string",
+      alias: "c",
+      description: "Path to config file",
+    },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
+    lines: {
+      type: "string",
+      alias: "n",
+      description: "Number of past lines to show",
+      default: "15",
+    },
+    err: {
+      type: "boolean",
+      description: "Only show error logs",
+      default: false,
+    },
+    out: {
+      type: "boolean",
+      description: "Only show standard output logs",
+      default: false,
+    },
+    since: {
+      type: "string",
+      alias: "s",
+      description: "Only show lines logged since a duration (10m, 2h, 1d) or date (needs timestamped logs)",
+    },
+    follow: {
+      type: "boolean",
+      alias: "f",
+      description: "Keep streaming new log lines until Ctrl-C",
+      default: false,
+    },
+    verbose: {
+      type: "boolean",
+      alias: "v",
+      description: "Enable verbose output",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    setVerbose(args.verbose);
+
+    try {
+      if (args.err && args.out) {
+        throw new Error("Use either --err or --out, not both");
+      }
+
+      const config = await loadConfig({ configPath: args.config, target: args.target });
+      const lines = Number.parseInt(args.lines, 10);
+      const result = await runLogs(config, {
+        lines: lines >= 0 ? lines : undefined,
+        stream: args.err ? "err" : args.out ? "out" : undefined,
+        since: args.since ? parseSince(args.since) : undefined,
+        follow: args.follow,
       });
 
       if (!result.success) {
@@ -219,6 +631,66 @@ const shipCommand = defineCommand({
   },
 });
 
+const trustCommand = defineCommand({
+  meta: {
+    name: "trust",
+    description: "Record the server's host key in known_hosts",
+  },
+  args: {
+    config: {
+      type: "string",
+      alias: "c",
+      description: "Path to config file",
+    },
+    target: {
+      type: "string",
+      alias: "t",
+      description: "Deploy target defined in config (e.g. staging, production)",
+    },
+    force: {
+      type: "boolean",
+      alias: "f",
+      description: "Replace a changed host key (only after verifying it)",
+      default: false,
+    },
+    verbose: {
+      type: "boolean",
+      alias: "v",
+      description: "Enable verbose output",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    setVerbose(args.verbose);
+    showBanner();
+
+    try {
+      const config = await loadConfig({ configPath: args.config, target: args.target });
+
+      // Jump hosts first: each one is reached through the hops before it
+      const jumpHosts = getJumpHosts(config.ssh);
+      const targets = [
+        ...jumpHosts.map((sshConfig, index) => ({ sshConfig, jumpHosts: jumpHosts.slice(0, index) })),
+        ...getHostConfigs(config.ssh).map((sshConfig) => ({ sshConfig, jumpHosts })),
+      ];
+
+      for (const target of targets) {
+        const result = await runTrust(target.sshConfig, {
+          force: args.force,
+          jumpHosts: target.jumpHosts,
+        });
+
+        if (!result.success) {
+          process.exit(1);
+        }
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error : new Error(String(error)), args.verbose);
+      process.exit(1);
+    }
+  },
+});
+
 const main = defineCommand({
   meta: {
     name: "pxnship",
@@ -228,9 +700,16 @@ const main = defineCommand({
   subCommands: {
     build: buildCommand,
     upload: uploadCommand,
+    diff: diffCommand,
     restart: restartCommand,
     pack: packCommand,
     ship: shipCommand,
+    rollback: rollbackCommand,
+    unlock: unlockCommand,
+    history: historyCommand,
+    status: statusCommand,
+    logs: logsCommand,
+    trust: trustCommand,
   },
 });
 
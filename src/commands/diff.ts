@@ -0,0 +1,138 @@
+import pc from "picocolors";
+import type { Config, SSHConfig, UploadConfig } from "../config/schema.js";
+import { upload, type FileChange } from "../lib/rsync.js";
+import { getCurrentPath } from "../lib/releases.js";
+import { getHostConfigs } from "../lib/ssh.js";
+import { formatBytes, logger } from "../utils/logger.js";
+
+export interface HostDiff {
+  host: string;
+  success: boolean;
+  method?: "rsync" | "sftp";
+  changes: FileChange[];
+  /** Files already up to date on the server */
+  unchanged?: number;
+  /** Size of the added and changed files (rsync's delta transfer may send less) */
+  bytes: number;
+  error?: string;
+}
+
+export interface DiffResult {
+  success: boolean;
+  hosts: HostDiff[];
+}
+
+export interface DiffOptions {
+  /** Print the changes as JSON */
+  json?: boolean;
+}
+
+const CHANGE_MARKS: Record<FileChange["type"], string> = {
+  added: pc.green("+"),
+  changed: pc.yellow("~"),
+  deleted: pc.red("-"),
+};
+
+/**
+ * Upload config to compare with. In releases mode the active release is the
+ * baseline; a new release starts empty, so missing files always count as deleted.
+ */
+function getDiffUploadConfig(config: Config): UploadConfig {
+  if (!config.releases.enabled) {
+    return config.upload;
+  }
+  return {
+    ...config.upload,
+    remotePath: getCurrentPath(config.upload.remotePath),
+    delete: true,
+  };
+}
+
+/**
+ * Compare the local upload set with one server (dry-run upload)
+ */
+async function diffHost(
+  sshConfig: SSHConfig,
+  config: Config,
+  cwd: string,
+  quiet: boolean
+): Promise<HostDiff> {
+  const { host } = sshConfig;
+  const spinner = quiet ? null : logger.spinner(`Comparing with ${host}...`);
+  spinner?.start();
+
+  try {
+    const result = await upload(sshConfig, getDiffUploadConfig(config), cwd, (message) => {
+      spinner?.update({ text: message });
+    }, { dryRun: true });
+
+    if (!result.success) {
+      spinner?.error({ text: `${host}: ${result.error}` });
+      return { host, success: false, method: result.method, changes: [], bytes: 0, error: result.error };
+    }
+
+    const changes = [...(result.changes ?? [])].sort((a, b) => a.path.localeCompare(b.path));
+    const bytes = changes
+      .filter((change) => change.type !== "deleted")
+      .reduce((sum, change) => sum + (change.size ?? 0), 0);
+    const count = (type: FileChange["type"]) => changes.filter((c) => c.type === type).length;
+
+    spinner?.success({
+      text: `${host}: ${count("added")} added, ${count("changed")} changed, ${count("deleted")} deleted (${formatBytes(bytes)} to upload via ${result.method})`,
+    });
+
+    return {
+      host,
+      success: true,
+      method: result.method,
+      changes,
+      unchanged: result.filesUnchanged,
+      bytes,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    spinner?.error({ text: `${host}: ${message}` });
+    return { host, success: false, changes: [], bytes: 0, error: message };
+  }
+}
+
+/**
+ * Print the file list of one server
+ */
+export function printChanges(diff: HostDiff): void {
+  for (const change of diff.changes) {
+    const size = change.size !== undefined ? pc.gray(` (${formatBytes(change.size)})`) : "";
+    console.log(`    ${CHANGE_MARKS[change.type]} ${change.path}${size}`);
+  }
+
+  if (diff.unchanged !== undefined) {
+    console.log(pc.gray(`    ${diff.unchanged} file(s) unchanged`));
+  }
+  console.log();
+}
+
+/**
+ * Show what an upload would add, change and delete on every server
+ */
+export async function runDiff(
+  config: Config,
+  options: DiffOptions = {},
+  cwd: string = process.cwd()
+): Promise<DiffResult> {
+  const hosts: HostDiff[] = [];
+
+  for (const sshConfig of getHostConfigs(config.ssh)) {
+    const diff = await diffHost(sshConfig, config, cwd, Boolean(options.json));
+    hosts.push(diff);
+
+    if (!options.json && diff.success) {
+      printChanges(diff);
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(hosts, null, 2));
+  }
+
+  return { success: hosts.every((h) => h.success), hosts };
+}
@@ -0,0 +1,95 @@
+import type { Config } from "../config/schema.js";
+import { getHostConfigs } from "../lib/ssh.js";
+import { readDeployHistory, type DeployRecord } from "../lib/history.js";
+import { logger, showTable, formatBytes, formatDuration } from "../utils/logger.js";
+
+export interface HistoryResult {
+  success: boolean;
+  records: DeployRecord[];
+  error?: string;
+}
+
+export interface HistoryOptions {
+  /** Print records as JSON instead of a table */
+  json?: boolean;
+  /** Maximum number of records per host */
+  limit?: number;
+}
+
+/**
+ * Format a record as a table row
+ */
+function toRow(record: DeployRecord, showHost: boolean): string[] {
+  const commit = record.sha
+    ? `${record.sha.slice(0, 7)}${record.dirty ? "*" : ""}`
+    : "-";
+  const upload = record.upload
+    ? `${record.upload.method}${record.upload.bytes ? ` ${formatBytes(record.upload.bytes)}` : ""}`
+    : "-";
+
+  return [
+    record.timestamp.replace("T", " ").slice(0, 19),
+    ...(showHost ? [record.host] : []),
+    record.target ?? "-",
+    commit,
+    record.branch ?? "-",
+    record.user,
+    record.success ? "ok" : "failed",
+    formatDuration(record.totalDuration),
+    upload,
+  ];
+}
+
+/**
+ * Show the deploy history kept on the server(s)
+ */
+export async function runHistory(
+  config: Config,
+  options: HistoryOptions = {}
+): Promise<HistoryResult> {
+  const hostConfigs = getHostConfigs(config.ssh);
+  const spinner = options.json ? null : logger.spinner("Reading deploy history...");
+  spinner?.start();
+
+  try {
+    const records: DeployRecord[] = [];
+
+    for (const sshConfig of hostConfigs) {
+      records.push(
+        ...(await readDeployHistory(sshConfig, config.upload.remotePath, options.limit))
+      );
+    }
+
+    // Newest first across all hosts
+    records.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    if (options.json) {
+      console.log(JSON.stringify(records, null, 2));
+      return { success: true, records };
+    }
+
+    if (records.length === 0) {
+      spinner?.warn({ text: "No deploys recorded yet" });
+      return { success: true, records };
+    }
+
+    spinner?.success({ text: `${records.length} deploy(s) recorded` });
+
+    const showHost = hostConfigs.length > 1;
+    showTable(
+      ["Date (UTC)", ...(showHost ? ["Host"] : []), "Target", "Commit", "Branch", "User", "Status", "Duration", "Upload"],
+      records.map((record) => toRow(record, showHost))
+    );
+
+    return { success: true, records };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (spinner) {
+      spinner.error({ text: `Failed to read deploy history: ${message}` });
+    } else {
+      console.error(message);
+    }
+
+    return { success: false, records: [], error: message };
+  }
+}
@@ -1,4 +1,17 @@
 export { runBuild, type BuildResult } from "./build.js";
 export { runUpload, type UploadCommandResult } from "./upload.js";
 export { runRestart, type RestartResult } from "./restart.js";
-export { runShip, type ShipResult, type ShipOptions } from "./ship.js";
+export {
+  runShip,
+  type ShipResult,
+  type ShipOptions,
+  type HostShipResult,
+  type HostSteps,
+} from "./ship.js";
+export { runRollback, type RollbackResult, type RollbackOptions } from "./rollback.js";
+export { runUnlock, type UnlockResult } from "./unlock.js";
+export { runHistory, type HistoryResult, type HistoryOptions } from "./history.js";
+export { runStatus, type StatusResult, type StatusOptions, type HostStatus } from "./status.js";
+export { runLogs, type LogsResult, type LogsOptions } from "./logs.js";
+export { runTrust, type TrustResult, type TrustOptions } from "./trust.js";
+export { runDiff, type DiffResult, type DiffOptions, type HostDiff } from "./diff.js";
@@ -0,0 +1,56 @@
+import pc from "picocolors";
+import type { Config, SSHConfig } from "../config/schema.js";
+import { getHostConfigs } from "../lib/ssh.js";
+import { streamLogs, type LogOptions } from "../lib/logs.js";
+
+export interface LogsResult {
+  success: boolean;
+  /** Number of lines printed */
+  lines: number;
+  error?: string;
+}
+
+export type LogsOptions = Omit<LogOptions, "signal">;
+
+/**
+ * Print the PM2 logs of the app, following new lines until Ctrl-C in follow mode
+ */
+export async function runLogs(config: Config, options: LogsOptions = {}): Promise<LogsResult> {
+  const hostConfigs = getHostConfigs(config.ssh);
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  let printed = 0;
+
+  process.once("SIGINT", onInterrupt);
+
+  const printHostLogs = async (sshConfig: SSHConfig): Promise<void> => {
+    // Prefix lines with the host when tailing several servers
+    const prefix = hostConfigs.length > 1 ? `${pc.gray(`[${sshConfig.host}]`)} ` : "";
+
+    for await (const entry of streamLogs(sshConfig, config.pm2.appName, {
+      ...options,
+      signal: controller.signal,
+    })) {
+      printed++;
+      if (entry.stream === "err") {
+        console.error(`${prefix}${pc.red(entry.line)}`);
+      } else {
+        console.log(`${prefix}${entry.line}`);
+      }
+    }
+  };
+
+  try {
+    await Promise.all(hostConfigs.map(printHostLogs));
+    return { success: true, lines: printed };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(pc.red(`Failed to read logs: ${message}`));
+
+    return { success: false, lines: printed, error: message };
+  } finally {
+    // Stop the other hosts if one failed
+    controller.abort();
+    process.removeListener("SIGINT", onInterrupt);
+  }
+}
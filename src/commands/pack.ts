@@ -1,5 +1,5 @@
 import { createWriteStream, statSync } from "node:fs";
-import { relative, join } from "node:path";
+import { relative, join, sep } from "node:path";
 import archiver from "archiver";
 import type { Config } from "../config/schema.js";
 import { runBuild } from "./build.js";
@@ -75,7 +75,8 @@ export async function runPack(
     archive.pipe(output);
 
     for (const file of files) {
-      const relativePath = relative(cwd, file);
+      // Zip entries always use "/" separators
+      const relativePath = relative(cwd, file).split(sep).join("/");
       archive.file(file, { name: relativePath });
     }
 
@@ -1,6 +1,7 @@
-import { execRemoteCommand } from "../lib/ssh.js";
-import type { SSHConfig, UploadConfig } from "../config/schema.js";
-import { logger } from "../utils/logger.js";
+import { detectPlatform } from "../lib/platform.js";
+import { connectTarget, type SSHSession, type SSHTarget } from "../lib/ssh.js";
+import type { UploadConfig } from "../config/schema.js";
+import { logger, createRemoteOutput } from "../utils/logger.js";
 
 export interface PrepareResult {
   success: boolean;
@@ -13,7 +14,7 @@ export interface PrepareResult {
  * This is required for Next.js standalone mode to work correctly
  */
 export async function runPrepare(
-  sshConfig: SSHConfig,
+  ssh: SSHTarget,
   uploadConfig: UploadConfig
 ): Promise<PrepareResult> {
   const startTime = Date.now();
@@ -22,65 +23,48 @@ export async function runPrepare(
   const spinner = logger.spinner("Preparing standalone folder...");
   spinner.start();
 
-  try {
-    // Detect OS and use appropriate commands
-    const osCheck = await execRemoteCommand(sshConfig, "uname -s 2>/dev/null || echo Windows");
-    const isWindows = osCheck.stdout.includes("Windows") || osCheck.code !== 0;
-
-    if (isWindows) {
-      // Windows commands using xcopy
-      const winPath = remotePath.replace(/^\/mnt\/([a-z])\//, "$1:\\\\").replace(/\//g, "\\");
+  let conn: SSHSession | null = null;
 
-      // Copy .next/static to .next/standalone/.next/static
-      const staticCmd = `xcopy "${winPath}\\.next\\static" "${winPath}\\.next\\standalone\\.next\\static" /E /I /Y /Q`;
-      const staticResult = await execRemoteCommand(sshConfig, staticCmd);
+  try {
+    const connection = await connectTarget(ssh);
+    conn = connection;
 
-      if (staticResult.code !== 0 && !staticResult.stdout.includes("File(s) copied")) {
-        spinner.error({ text: `Failed to copy static files: ${staticResult.stderr}` });
-        return {
-          success: false,
-          duration: Date.now() - startTime,
-          error: staticResult.stderr,
-        };
-      }
+    // Copy commands stream their output in verbose mode
+    const onOutput = createRemoteOutput(spinner);
+    const exec = (command: string) =>
+      connection.execStream(command, { onStdout: onOutput, onStderr: onOutput });
 
-      // Copy public to .next/standalone/public
-      const publicCmd = `xcopy "${winPath}\\public" "${winPath}\\.next\\standalone\\public" /E /I /Y /Q`;
-      const publicResult = await execRemoteCommand(sshConfig, publicCmd);
+    // Shell-specific copy commands (cp, xcopy or Copy-Item)
+    const platform = await detectPlatform(connection);
+    const standalone = platform.join(remotePath, ".next", "standalone");
 
-      if (publicResult.code !== 0 && !publicResult.stdout.includes("File(s) copied")) {
-        spinner.error({ text: `Failed to copy public files: ${publicResult.stderr}` });
-        return {
-          success: false,
-          duration: Date.now() - startTime,
-          error: publicResult.stderr,
-        };
-      }
-    } else {
-      // Linux/macOS commands using cp
-      const staticCmd = `cp -r "${remotePath}/.next/static" "${remotePath}/.next/standalone/.next/"`;
-      const staticResult = await execRemoteCommand(sshConfig, staticCmd);
+    // Copy .next/static to .next/standalone/.next/static
+    const staticCmd = platform.copy(
+      platform.join(remotePath, ".next", "static"),
+      platform.join(standalone, ".next", "static")
+    );
+    const staticResult = await exec(staticCmd);
 
-      if (staticResult.code !== 0) {
-        spinner.error({ text: `Failed to copy static files: ${staticResult.stderr}` });
-        return {
-          success: false,
-          duration: Date.now() - startTime,
-          error: staticResult.stderr,
-        };
-      }
+    if (staticResult.code !== 0) {
+      spinner.error({ text: `Failed to copy static files: ${staticResult.stderr}` });
+      return {
+        success: false,
+        duration: Date.now() - startTime,
+        error: staticResult.stderr,
+      };
+    }
 
-      const publicCmd = `cp -r "${remotePath}/public" "${remotePath}/.next/standalone/"`;
-      const publicResult = await execRemoteCommand(sshConfig, publicCmd);
+    // Copy public to .next/standalone/public
+    const publicCmd = platform.copy(platform.join(remotePath, "public"), platform.join(standalone, "public"));
+    const publicResult = await exec(publicCmd);
 
-      if (publicResult.code !== 0) {
-        spinner.error({ text: `Failed to copy public files: ${publicResult.stderr}` });
-        return {
-          success: false,
-          duration: Date.now() - startTime,
-          error: publicResult.stderr,
-        };
-      }
+    if (publicResult.code !== 0) {
+      spinner.error({ text: `Failed to copy public files: ${publicResult.stderr}` });
+      return {
+        success: false,
+        duration: Date.now() - startTime,
+        error: publicResult.stderr,
+      };
     }
 
     spinner.success({ text: "Standalone folder prepared (static + public copied)" });
@@ -98,5 +82,7 @@ export async function runPrepare(
       duration: Date.now() - startTime,
       error: message,
     };
+  } finally {
+    conn?.close();
   }
 }
@@ -1,6 +1,8 @@
 import { reloadApp, verifyAppRunning } from "../lib/pm2.js";
-import type { SSHConfig, PM2Config } from "../config/schema.js";
-import { logger } from "../utils/logger.js";
+import { checkHealth } from "../lib/health.js";
+import type { SSHTarget } from "../lib/ssh.js";
+import type { PM2Config, HealthCheckConfig } from "../config/schema.js";
+import { logger, createRemoteOutput } from "../utils/logger.js";
 
 export interface RestartResult {
   success: boolean;
@@ -10,11 +12,13 @@ export interface RestartResult {
 
 /**
  * Restart PM2 app or start if not exists
+ * If a health check is configured, the app must also answer over HTTP
  */
 export async function runRestart(
-  sshConfig: SSHConfig,
+  ssh: SSHTarget,
   pm2Config: PM2Config,
-  remotePath?: string
+  remotePath?: string,
+  healthCheck?: HealthCheckConfig
 ): Promise<RestartResult> {
   const startTime = Date.now();
 
@@ -24,7 +28,9 @@ export async function runRestart(
 
   try {
     // Reload/Restart or Start if not exists
-    const result = await reloadApp(sshConfig, pm2Config, remotePath);
+    const result = await reloadApp(ssh, pm2Config, remotePath, {
+      onOutput: createRemoteOutput(spinner),
+    });
 
     if (!result.success) {
       spinner.error({ text: `${action} failed: ${result.error}` });
@@ -38,12 +44,38 @@ export async function runRestart(
     // Verify application is running
     spinner.update({ text: "Verifying application is running..." });
 
-    const verification = await verifyAppRunning(sshConfig, pm2Config.appName);
+    const verification = await verifyAppRunning(ssh, pm2Config.appName);
 
     if (!verification.success) {
-      spinner.warn({
+      spinner.error({
         text: `App restarted but verification failed: ${verification.error}`,
       });
+      return {
+        success: false,
+        duration: Date.now() - startTime,
+        error: verification.error,
+      };
+    }
+
+    // HTTP health check
+    if (healthCheck) {
+      spinner.update({ text: "Running health check..." });
+
+      const health = await checkHealth(ssh, healthCheck, pm2Config.port);
+
+      if (!health.success) {
+        spinner.error({ text: health.error ?? "Health check failed" });
+        return {
+          success: false,
+          duration: Date.now() - startTime,
+          error: health.error,
+        };
+      }
+
+      spinner.success({
+        text: `PM2 app "${pm2Config.appName}" is running (${health.url} → ${health.statusCode})`,
+      });
+
       return {
         success: true,
         duration: Date.now() - startTime,
@@ -0,0 +1,198 @@
+import type { Config } from "../config/schema.js";
+import { runRestart } from "./restart.js";
+import { createSSHSession } from "../lib/ssh.js";
+import { getGitInfo } from "../lib/git.js";
+import { acquireLock, releaseLock, createLockInfo, describeLock, type DeployLock } from "../lib/lock.js";
+import { activateRelease, getCurrentPath, getReleaseState } from "../lib/releases.js";
+import { logger } from "../utils/logger.js";
+
+export interface RollbackResult {
+  success: boolean;
+  duration: number;
+  release?: string;
+  previous?: string | null;
+  releases: string[];
+  error?: string;
+}
+
+export interface RollbackOptions {
+  /** Release to activate. Defaults to the release before the active one */
+  release?: string;
+  /** Only list the releases kept on the server */
+  list?: boolean;
+  /** Roll back even if a deploy holds the lock */
+  force?: boolean;
+}
+
+/**
+ * Print releases kept on the server, newest first
+ */
+function printReleases(releases: string[], current: string | null): void {
+  console.log();
+  console.log("  Releases:");
+  for (const name of [...releases].reverse()) {
+    const marker = name === current ? "  (current)" : "";
+    console.log(`    ${name}${marker}`);
+  }
+  console.log();
+}
+
+/**
+ * Point `current` back to a previous release and reload PM2
+ */
+export async function runRollback(
+  config: Config,
+  options: RollbackOptions = {}
+): Promise<RollbackResult> {
+  const startTime = Date.now();
+  const { remotePath } = config.upload;
+
+  if (!config.releases.enabled) {
+    const error = "Rollback requires releases.enabled: true";
+    logger.error(error);
+    return { success: false, duration: 0, releases: [], error };
+  }
+
+  const spinner = logger.spinner("Reading releases...");
+  spinner.start();
+
+  // Reuse one connection for reading, activating and restarting
+  const session = createSSHSession(config.ssh);
+  let lock: DeployLock | null = null;
+
+  try {
+    const { releases, current } = await getReleaseState(session, remotePath);
+
+    if (releases.length === 0) {
+      spinner.error({ text: `No releases found in ${remotePath}` });
+      return {
+        success: false,
+        duration: Date.now() - startTime,
+        releases,
+        error: "No releases found",
+      };
+    }
+
+    if (options.list) {
+      spinner.success({ text: `${releases.length} release(s) on ${config.ssh.host}` });
+      printReleases(releases, current);
+      return {
+        success: true,
+        duration: Date.now() - startTime,
+        release: current ?? undefined,
+        releases,
+      };
+    }
+
+    // Pick the target release
+    let target: string | undefined = options.release;
+
+    if (target && !releases.includes(target)) {
+      spinner.error({ text: `Release "${target}" not found` });
+      printReleases(releases, current);
+      return {
+        success: false,
+        duration: Date.now() - startTime,
+        previous: current,
+        releases,
+        error: `Release "${target}" not found`,
+      };
+    }
+
+    if (!target) {
+      const currentIndex = current ? releases.indexOf(current) : releases.length;
+      target = currentIndex > 0 ? releases[currentIndex - 1] : undefined;
+    }
+
+    if (!target) {
+      spinner.error({ text: "No previous release to roll back to" });
+      return {
+        success: false,
+        duration: Date.now() - startTime,
+        previous: current,
+        releases,
+        error: "No previous release to roll back to",
+      };
+    }
+
+    if (target === current) {
+      spinner.warn({ text: `Release ${target} is already active` });
+      return {
+        success: true,
+        duration: Date.now() - startTime,
+        release: target,
+        previous: current,
+        releases,
+      };
+    }
+
+    // Same lock as ship, so a rollback cannot race a deploy's symlink switch and restart
+    if (config.lock.enabled) {
+      spinner.update({ text: "Acquiring deploy lock..." });
+      const candidate = createLockInfo(await getGitInfo(), config.target);
+      const lockResult = await acquireLock(session, remotePath, candidate, {
+        ttl: config.lock.ttl,
+        force: options.force ?? false,
+      });
+
+      if (!lockResult.acquired) {
+        const holder = lockResult.lock ? describeLock(lockResult.lock) : "another deploy";
+        const error = `Deploy on ${config.ssh.host} is locked by ${holder}. Use --force or \`pxnship unlock\` to override.`;
+        spinner.error({ text: error });
+        return {
+          success: false,
+          duration: Date.now() - startTime,
+          previous: current,
+          releases,
+          error,
+        };
+      }
+
+      if (lockResult.replaced) {
+        logger.debug(`Replaced lock on ${config.ssh.host} held by ${describeLock(lockResult.replaced)}`);
+      }
+      lock = candidate;
+    }
+
+    spinner.update({ text: `Activating release ${target}...` });
+    await activateRelease(session, remotePath, target);
+    spinner.success({ text: `Rolled back ${current ?? "(none)"} → ${target}` });
+
+    // Reload PM2 and verify the app is running (and healthy) again
+    const restartResult = await runRestart(
+      session,
+      config.pm2,
+      getCurrentPath(remotePath),
+      config.healthCheck
+    );
+
+    return {
+      success: restartResult.success,
+      duration: Date.now() - startTime,
+      release: target,
+      previous: current,
+      releases,
+      error: restartResult.error,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    spinner.error({ text: `Rollback failed: ${message}` });
+
+    return {
+      success: false,
+      duration: Date.now() - startTime,
+      releases: [],
+      error: message,
+    };
+  } finally {
+    if (lock) {
+      try {
+        await releaseLock(session, remotePath, lock.id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Failed to release deploy lock on ${config.ssh.host}: ${message}`);
+      }
+    }
+    session.close();
+  }
+}
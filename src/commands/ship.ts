@@ -1,18 +1,58 @@
 import type { Config } from "../config/schema.js";
 import { runBuild } from "./build.js";
 import { runUpload } from "./upload.js";
+import { runDiff } from "./diff.js";
 import { runPrepare } from "./prepare.js";
 import { runRestart } from "./restart.js";
-import { logger, showSummary, showError } from "../utils/logger.js";
+import { createSSHSession, getHostConfigs, type SSHSession } from "../lib/ssh.js";
+import { getGitInfo, type GitInfo } from "../lib/git.js";
+import { isCompressionEnabled } from "../lib/rsync.js";
+import { appendDeployRecord, createDeployRecord } from "../lib/history.js";
+import {
+  acquireLock,
+  releaseLock,
+  refreshLock,
+  createLockInfo,
+  describeLock,
+  type DeployLock,
+} from "../lib/lock.js";
+import {
+  prepareRelease,
+  activateRelease,
+  getCurrentPath,
+  getReleasePath,
+  pruneReleases,
+  removeRelease,
+  type ReleaseInfo,
+} from "../lib/releases.js";
+import { logger, showSummary, showError, showHostResults } from "../utils/logger.js";
+
+export interface HostSteps {
+  upload?: { success: boolean; duration: number; method: string };
+  prepare?: { success: boolean; duration: number };
+  release?: { success: boolean; duration: number; name: string };
+  restart?: { success: boolean; duration: number };
+  rollback?: { success: boolean; duration: number; release: string };
+}
+
+export interface HostShipResult {
+  host: string;
+  success: boolean;
+  /** Not attempted because the rollout stopped on an earlier failure */
+  skipped?: boolean;
+  steps: HostSteps;
+  duration: number;
+  filesTransferred?: number;
+  bytesTransferred?: number;
+  error?: string;
+}
 
 export interface ShipResult {
   success: boolean;
-  steps: {
+  steps: HostSteps & {
     build?: { success: boolean; duration: number };
-    upload?: { success: boolean; duration: number; method: string };
-    prepare?: { success: boolean; duration: number };
-    restart?: { success: boolean; duration: number };
   };
+  hosts: HostShipResult[];
   totalDuration: number;
   error?: string;
 }
@@ -21,10 +61,317 @@ export interface ShipOptions {
   skipBuild?: boolean;
   dryRun?: boolean;
   verbose?: boolean;
+  /** Deploy even if another deploy holds the lock */
+  force?: boolean;
+}
+
+/**
+ * Renew our deploy lock on a server between steps (the TTL counts from the last refresh)
+ * Throws if the lock was taken over, so the deploy stops instead of racing the other one
+ */
+async function refreshHostLock(
+  config: Config,
+  session: SSHSession,
+  lock: DeployLock | null
+): Promise<void> {
+  if (!lock) {
+    return;
+  }
+  if (!(await refreshLock(session, config.upload.remotePath, lock))) {
+    throw new Error(`Deploy lock on ${session.config.host} was removed or taken over by another deploy`);
+  }
 }
 
 /**
- * Run all deployment steps: build → upload → restart
+ * Upload, activate and restart on a single server
+ * Every step runs over the same SSH session
+ */
+async function deployToHost(
+  config: Config,
+  session: SSHSession,
+  cwd: string,
+  lock: DeployLock | null
+): Promise<HostShipResult> {
+  const startTime = Date.now();
+  const { remotePath } = config.upload;
+  const { host } = session.config;
+  const result: HostShipResult = {
+    host,
+    success: false,
+    steps: {},
+    duration: 0,
+  };
+
+  // Releases mode: upload into a fresh releases/<timestamp>/ directory
+  let release: ReleaseInfo | null = null;
+
+  const fail = async (error: string | undefined): Promise<HostShipResult> => {
+    // A failed release is removed unless it is still active (nothing to restore)
+    if (release) {
+      try {
+        if (await removeRelease(session, remotePath, release.name)) {
+          logger.debug(`Removed failed release ${release.name} on ${host}`);
+        }
+      } catch (cleanupError) {
+        const message = cleanupError instanceof Error ? cleanupError.message : String(cleanupError);
+        logger.warn(`Failed to remove failed release ${release.name}: ${message}`);
+      }
+    }
+
+    result.error = error;
+    result.duration = Date.now() - startTime;
+    return result;
+  };
+
+  try {
+    let uploadConfig = config.upload;
+
+    if (config.releases.enabled) {
+      release = await prepareRelease(session, remotePath);
+      uploadConfig = { ...config.upload, remotePath: release.path };
+    }
+
+    // Step 2: Upload
+    const uploadResult = await runUpload(session, uploadConfig, cwd, {
+      linkDest: release?.previous ? getReleasePath(remotePath, release.previous) : undefined,
+    });
+    result.steps.upload = {
+      success: uploadResult.success,
+      duration: uploadResult.duration,
+      method: uploadResult.method,
+    };
+    result.filesTransferred = uploadResult.filesTransferred;
+    result.bytesTransferred = uploadResult.bytesTransferred;
+
+    if (!uploadResult.success) {
+      return fail(uploadResult.error);
+    }
+
+    await refreshHostLock(config, session, lock);
+
+    // Step 3: Prepare standalone folder (copy static + public)
+    // prepareLocally true ise bu adım local'de yapıldı, sunucuda tekrar yapmaya gerek yok
+    if (config.build.standalone && !config.build.prepareLocally) {
+      const prepareResult = await runPrepare(session, uploadConfig);
+      result.steps.prepare = {
+        success: prepareResult.success,
+        duration: prepareResult.duration,
+      };
+
+      if (!prepareResult.success) {
+        return fail(prepareResult.error);
+      }
+    }
+
+    // Step 4: Switch the `current` symlink to the new release
+    if (release) {
+      const releaseStart = Date.now();
+      const spinner = logger.spinner(`Activating release ${release.name} on ${host}...`);
+      spinner.start();
+
+      try {
+        await activateRelease(session, remotePath, release.name);
+        spinner.success({ text: `Release ${release.name} activated on ${host}` });
+        result.steps.release = {
+          success: true,
+          duration: Date.now() - releaseStart,
+          name: release.name,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        spinner.error({ text: `Release activation failed: ${message}` });
+        result.steps.release = {
+          success: false,
+          duration: Date.now() - releaseStart,
+          name: release.name,
+        };
+        return fail(message);
+      }
+    }
+
+    // Step 5: Restart PM2 (or start if not exists)
+    const appPath = release ? getCurrentPath(remotePath) : remotePath;
+    const restartResult = await runRestart(session, config.pm2, appPath, config.healthCheck);
+    result.steps.restart = {
+      success: restartResult.success,
+      duration: restartResult.duration,
+    };
+
+    if (!restartResult.success) {
+      // Restore the previous release so production keeps serving the last good build
+      if (release?.previous) {
+        const rollbackStart = Date.now();
+        logger.warn(`Deploy failed on ${host}, restoring previous release ${release.previous}...`);
+
+        let restored = false;
+        try {
+          await activateRelease(session, remotePath, release.previous);
+          const rollbackResult = await runRestart(session, config.pm2, appPath, config.healthCheck);
+          restored = rollbackResult.success;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.error(`Failed to restore previous release: ${message}`);
+        }
+
+        result.steps.rollback = {
+          success: restored,
+          duration: Date.now() - rollbackStart,
+          release: release.previous,
+        };
+
+        if (restored) {
+          logger.info(`Previous release ${release.previous} restored on ${host}`);
+        }
+      } else if (release) {
+        logger.warn("No previous release available to restore");
+      }
+
+      return fail(restartResult.error);
+    }
+
+    // Remove old releases beyond the retention limit
+    if (release) {
+      try {
+        const removed = await pruneReleases(session, remotePath, config.releases.keep);
+        if (removed.length > 0) {
+          logger.debug(`Pruned ${removed.length} old release(s): ${removed.join(", ")}`);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Failed to prune old releases: ${message}`);
+      }
+    }
+
+    result.success = true;
+    result.duration = Date.now() - startTime;
+    return result;
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Take the deploy lock on every host
+ * @returns Hosts that were locked, or an error if any host is locked by someone else
+ */
+async function lockHosts(
+  config: Config,
+  sessions: SSHSession[],
+  lock: DeployLock,
+  force: boolean
+): Promise<{ locked: SSHSession[]; error?: string }> {
+  const locked: SSHSession[] = [];
+  const spinner = logger.spinner("Acquiring deploy lock...");
+  spinner.start();
+
+  for (const session of sessions) {
+    const { host } = session.config;
+    try {
+      const result = await acquireLock(session, config.upload.remotePath, lock, {
+        ttl: config.lock.ttl,
+        force,
+      });
+
+      if (!result.acquired) {
+        const holder = result.lock ? describeLock(result.lock) : "another deploy";
+        const error = `Deploy on ${host} is locked by ${holder}. Use --force or \`pxnship unlock\` to override.`;
+        spinner.error({ text: error });
+        return { locked, error };
+      }
+
+      if (result.replaced) {
+        logger.debug(`Replaced lock on ${host} held by ${describeLock(result.replaced)}`);
+      }
+
+      locked.push(session);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      spinner.error({ text: `Failed to acquire deploy lock: ${message}` });
+      return { locked, error: message };
+    }
+  }
+
+  spinner.success({ text: "Deploy lock acquired" });
+  return { locked };
+}
+
+/**
+ * Release our deploy lock on the given hosts
+ */
+async function unlockHosts(config: Config, sessions: SSHSession[], lock: DeployLock): Promise<void> {
+  for (const session of sessions) {
+    try {
+      await releaseLock(session, config.upload.remotePath, lock.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to release deploy lock on ${session.config.host}: ${message}`);
+    }
+  }
+}
+
+/**
+ * Append the outcome of a host deploy to its history log
+ * History is informational, failures only produce a warning
+ */
+async function recordDeploy(
+  config: Config,
+  session: SSHSession,
+  hostResult: HostShipResult,
+  git: GitInfo,
+  buildDuration?: number
+): Promise<void> {
+  const steps: Record<string, number> = {};
+  if (buildDuration !== undefined) {
+    steps.build = buildDuration;
+  }
+  for (const [name, step] of Object.entries(hostResult.steps)) {
+    if (step) {
+      steps[name] = step.duration;
+    }
+  }
+
+  const record = createDeployRecord(git, {
+    host: session.config.host,
+    target: config.target,
+    success: hostResult.success,
+    release: hostResult.steps.release?.name,
+    steps,
+    totalDuration: (buildDuration ?? 0) + hostResult.duration,
+    upload: hostResult.steps.upload
+      ? {
+          method: hostResult.steps.upload.method,
+          files: hostResult.filesTransferred,
+          bytes: hostResult.bytesTransferred,
+        }
+      : undefined,
+    error: hostResult.error,
+  });
+
+  try {
+    await appendDeployRecord(session, config.upload.remotePath, record);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Failed to record deploy history on ${session.config.host}: ${message}`);
+  }
+}
+
+/**
+ * Split hosts into rollout batches
+ */
+function createBatches<T>(items: T[], config: Config): T[][] {
+  const size = config.rollout.strategy === "parallel" ? items.length : config.rollout.batchSize;
+  const batches: T[][] = [];
+
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+
+  return batches;
+}
+
+/**
+ * Run all deployment steps: build → upload → (activate release) → restart
+ * The build runs once, upload and restart run on every host in ssh.hosts
  */
 export async function runShip(
   config: Config,
@@ -32,9 +379,11 @@ export async function runShip(
   cwd: string = process.cwd()
 ): Promise<ShipResult> {
   const startTime = Date.now();
+  const hostConfigs = getHostConfigs(config.ssh);
   const result: ShipResult = {
     success: false,
     steps: {},
+    hosts: [],
     totalDuration: 0,
   };
 
@@ -43,25 +392,69 @@ export async function runShip(
     logger.info("Dry-run mode enabled. No changes will be made.");
     console.log();
     console.log("  Configuration:");
-    console.log(`    SSH Host:     ${config.ssh.host}`);
+    if (config.target) {
+      console.log(`    Target:       ${config.target}`);
+    }
+    console.log(`    SSH Host:     ${hostConfigs.map((h) => h.host).join(", ")}`);
+    if (hostConfigs.length > 1) {
+      const { strategy, batchSize } = config.rollout;
+      console.log(`    Rollout:      ${strategy}${strategy === "rolling" ? ` (batch size ${batchSize})` : ""}`);
+    }
     console.log(`    SSH User:     ${config.ssh.user}`);
     console.log(`    SSH Port:     ${config.ssh.port}`);
+    if (config.ssh.jump?.length) {
+      console.log(`    Jump Hosts:   ${config.ssh.jump.map((hop) => `${hop.host}:${hop.port}`).join(" → ")}`);
+    }
     console.log(`    Remote Path:  ${config.upload.remotePath}`);
+    if (config.upload.bandwidthLimit) {
+      console.log(`    Bandwidth:    ${config.upload.bandwidthLimit} KB/s`);
+    }
     console.log(`    PM2 App:      ${config.pm2.appName}`);
     console.log(`    PM2 Port:     ${config.pm2.port || "default (3000)"}`);
     const envCount = config.pm2.env ? Object.keys(config.pm2.env).length : 0;
-    console.log(`    PM2 Env:      ${envCount > 0 ? `${envCount} variable(s)` : "none"}`);
+    const envFile = config.pm2.envFile ? " (env file)" : "";
+    console.log(`    PM2 Env:      ${envCount > 0 ? `${envCount} variable(s)${envFile}` : "none"}`);
     console.log(`    Build Cmd:    ${config.build.command}`);
     console.log(`    Skip Build:   ${options.skipBuild || config.build.skipBuild}`);
+    console.log(`    Releases:     ${config.releases.enabled ? "enabled" : "disabled"}`);
     console.log();
+
+    // Upload preview against the current build output
+    console.log("  Changes:");
+    const preview = await runDiff(config, {}, cwd);
+
     return {
-      success: true,
+      success: preview.success,
       steps: {},
-      totalDuration: 0,
+      hosts: [],
+      totalDuration: Date.now() - startTime,
+      error: preview.hosts.find((h) => h.error)?.error,
     };
   }
 
+  // One SSH session per host, shared by every step (lock, upload, restart, history)
+  // upload.compression also applies to SFTP uploads through the session
+  const compress = isCompressionEnabled(config.upload);
+  const sessions = hostConfigs.map((sshConfig) => createSSHSession(sshConfig, { compress }));
+  let lock: DeployLock | null = null;
+  let lockedHosts: SSHSession[] = [];
+
   try {
+    const git = await getGitInfo(cwd);
+
+    // Refuse to start while another deploy holds the lock
+    if (config.lock.enabled) {
+      lock = createLockInfo(git, config.target);
+      const lockResult = await lockHosts(config, sessions, lock, options.force ?? false);
+      lockedHosts = lockResult.locked;
+
+      if (lockResult.error) {
+        result.error = lockResult.error;
+        result.totalDuration = Date.now() - startTime;
+        return result;
+      }
+    }
+
     // Step 1: Build
     const buildConfig = {
       ...config.build,
@@ -81,61 +474,72 @@ export async function runShip(
       return result;
     }
 
-    // Step 2: Upload
-    const uploadResult = await runUpload(config.ssh, config.upload, cwd);
-    result.steps.upload = {
-      success: uploadResult.success,
-      duration: uploadResult.duration,
-      method: uploadResult.method,
-    };
+    // Steps 2-5 on every host, batch by batch
+    for (const batch of createBatches(sessions, config)) {
+      if (hostConfigs.length > 1) {
+        logger.info(`Deploying to ${batch.map((h) => h.config.host).join(", ")}`);
+      }
 
-    if (!uploadResult.success) {
-      result.error = uploadResult.error;
-      result.totalDuration = Date.now() - startTime;
-      return result;
-    }
+      // The build (and earlier batches) may have taken a while
+      await Promise.all(batch.map((session) => refreshHostLock(config, session, lock)));
 
-    // Step 3: Prepare standalone folder (copy static + public)
-    // prepareLocally true ise bu adım local'de yapıldı, sunucuda tekrar yapmaya gerek yok
-    if (config.build.standalone && !config.build.prepareLocally) {
-      const prepareResult = await runPrepare(config.ssh, config.upload);
-      result.steps.prepare = {
-        success: prepareResult.success,
-        duration: prepareResult.duration,
-      };
+      const batchResults = await Promise.all(
+        batch.map((session) => deployToHost(config, session, cwd, lock))
+      );
+      result.hosts.push(...batchResults);
 
-      if (!prepareResult.success) {
-        result.error = prepareResult.error;
-        result.totalDuration = Date.now() - startTime;
-        return result;
+      await Promise.all(
+        batch.map((session, i) => {
+          const hostResult = batchResults[i];
+          return hostResult
+            ? recordDeploy(config, session, hostResult, git, result.steps.build?.duration)
+            : undefined;
+        })
+      );
+
+      const failed = batchResults.find((r) => !r.success);
+      if (failed) {
+        result.error = hostConfigs.length > 1 ? `${failed.host}: ${failed.error}` : failed.error;
+        break;
       }
     }
 
-    // Step 4: Restart PM2 (or start if not exists)
-    const restartResult = await runRestart(config.ssh, config.pm2, config.upload.remotePath);
-    result.steps.restart = {
-      success: restartResult.success,
-      duration: restartResult.duration,
-    };
+    // Hosts the rollout never reached
+    for (const sshConfig of hostConfigs.slice(result.hosts.length)) {
+      result.hosts.push({
+        host: sshConfig.host,
+        success: false,
+        skipped: true,
+        steps: {},
+        duration: 0,
+      });
+    }
 
-    if (!restartResult.success) {
-      result.error = restartResult.error;
-      result.totalDuration = Date.now() - startTime;
-      return result;
+    // Single host: expose its steps at the top level as well
+    if (result.hosts.length === 1 && result.hosts[0]) {
+      Object.assign(result.steps, result.hosts[0].steps);
     }
 
-    // Success!
-    result.success = true;
+    result.success = result.hosts.every((h) => h.success);
     result.totalDuration = Date.now() - startTime;
 
+    if (!result.success) {
+      if (hostConfigs.length > 1) {
+        showHostResults(result.hosts);
+      }
+      return result;
+    }
+
     showSummary({
+      target: config.target,
       host: config.ssh.host,
+      hosts: hostConfigs.length > 1 ? result.hosts : undefined,
       remotePath: config.upload.remotePath,
       appName: config.pm2.appName,
       duration: result.totalDuration,
-      bytesTransferred: uploadResult.bytesTransferred,
+      bytesTransferred: result.hosts.reduce((sum, h) => sum + (h.bytesTransferred ?? 0), 0),
       buildDuration: result.steps.build?.duration,
-      uploadDuration: result.steps.upload?.duration,
+      uploadDuration: result.hosts.length === 1 ? result.steps.upload?.duration : undefined,
     });
 
     return result;
@@ -144,5 +548,12 @@ export async function runShip(
     result.totalDuration = Date.now() - startTime;
     showError(error instanceof Error ? error : new Error(String(error)), options.verbose);
     return result;
+  } finally {
+    if (lock) {
+      await unlockHosts(config, lockedHosts, lock);
+    }
+    for (const session of sessions) {
+      session.close();
+    }
   }
 }
@@ -0,0 +1,162 @@
+import pc from "picocolors";
+import type { Config } from "../config/schema.js";
+import { createSSHSession, getHostConfigs, type SSHSession } from "../lib/ssh.js";
+import { getAppStatus, type PM2ProcessInfo } from "../lib/pm2.js";
+import { getReleaseState } from "../lib/releases.js";
+import { readDeployHistory, type DeployRecord } from "../lib/history.js";
+import { formatBytes } from "../utils/logger.js";
+
+export interface HostStatus {
+  host: string;
+  success: boolean;
+  status?: string;
+  processes: PM2ProcessInfo[];
+  /** Active release (releases mode) */
+  release?: string | null;
+  /** Last successful deploy recorded on the server */
+  deploy?: DeployRecord;
+  error?: string;
+}
+
+export interface StatusResult {
+  success: boolean;
+  hosts: HostStatus[];
+}
+
+export interface StatusOptions {
+  /** Print status as JSON */
+  json?: boolean;
+  /** Poll and redraw until interrupted */
+  watch?: boolean;
+  /** Poll interval in milliseconds (watch mode) */
+  interval?: number;
+}
+
+/**
+ * Format uptime as "3d 4h", "2h 5m" or "45s"
+ */
+function formatUptime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * Collect PM2, release and deploy info from one server
+ */
+async function getHostStatus(config: Config, session: SSHSession): Promise<HostStatus> {
+  const { remotePath } = config.upload;
+  const status = await getAppStatus(session, config.pm2.appName);
+  const hostStatus: HostStatus = {
+    host: session.config.host,
+    success: status.success,
+    status: status.status,
+    processes: status.processes ?? [],
+    error: status.error,
+  };
+
+  // Release and deploy info are optional extras, ignore failures
+  try {
+    if (config.releases.enabled) {
+      hostStatus.release = (await getReleaseState(session, remotePath)).current;
+    }
+    const records = await readDeployHistory(session, remotePath, 50);
+    hostStatus.deploy = records.find((r) => r.success);
+  } catch {
+    // Not available
+  }
+
+  return hostStatus;
+}
+
+/**
+ * Print the status of one server
+ */
+function printHostStatus(config: Config, status: HostStatus): void {
+  const color = status.status === "online" ? pc.green : pc.red;
+
+  console.log(`  ${pc.bold(status.host)}  ${config.pm2.appName}  ${status.status ? color(status.status) : pc.red("unknown")}`);
+
+  if (!status.success) {
+    console.log(`    ${pc.red(status.error ?? "Failed to get status")}`);
+    console.log();
+    return;
+  }
+
+  for (const proc of status.processes) {
+    const label = status.processes.length > 1 ? `    #${proc.pmId} ` : "    ";
+    console.log(`${label}${pc.gray("Status:")}    ${proc.status === "online" ? pc.green(proc.status) : pc.red(proc.status)}`);
+    console.log(`    ${pc.gray("Uptime:")}    ${proc.uptime ? formatUptime(proc.uptime) : "-"}`);
+    console.log(`    ${pc.gray("Restarts:")}  ${proc.restarts}${proc.unstableRestarts ? pc.yellow(` (${proc.unstableRestarts} unstable)`) : ""}`);
+    console.log(`    ${pc.gray("CPU:")}       ${proc.cpu}%`);
+    console.log(`    ${pc.gray("Memory:")}    ${formatBytes(proc.memory)}`);
+    console.log(`    ${pc.gray("PID:")}       ${proc.pid || "-"}`);
+    console.log(`    ${pc.gray("Node:")}      ${proc.nodeVersion ?? "-"}${proc.execMode ? pc.gray(` (${proc.execMode})`) : ""}`);
+    console.log(`    ${pc.gray("Script:")}    ${proc.execPath ?? "-"}`);
+  }
+
+  if (status.release !== undefined) {
+    console.log(`    ${pc.gray("Release:")}   ${status.release ?? "-"}`);
+  }
+
+  if (status.deploy) {
+    const { deploy } = status;
+    const commit = deploy.sha ? `${deploy.sha.slice(0, 7)}${deploy.dirty ? "*" : ""}` : "-";
+    console.log(`    ${pc.gray("Commit:")}    ${commit}${deploy.branch ? ` (${deploy.branch})` : ""}`);
+    console.log(`    ${pc.gray("Deployed:")}  ${deploy.timestamp} by ${deploy.user}`);
+  }
+
+  console.log();
+}
+
+/**
+ * Show the PM2 status of the app on every server
+ */
+export async function runStatus(
+  config: Config,
+  options: StatusOptions = {}
+): Promise<StatusResult> {
+  // Sessions stay open between polls in watch mode
+  const sessions = getHostConfigs(config.ssh).map((h) => createSSHSession(h));
+  const interval = options.interval ?? 2000;
+
+  try {
+    while (true) {
+      const hosts = await Promise.all(sessions.map((s) => getHostStatus(config, s)));
+      const result: StatusResult = {
+        success: hosts.every((h) => h.success),
+        hosts,
+      };
+
+      if (options.json) {
+        // Watch mode prints one JSON line per poll
+        console.log(options.watch ? JSON.stringify(hosts) : JSON.stringify(hosts, null, 2));
+      } else {
+        if (options.watch) {
+          console.clear();
+          console.log(pc.gray(`  Every ${interval / 1000}s - ${new Date().toLocaleTimeString()} - Ctrl-C to exit`));
+        }
+        console.log();
+        for (const status of hosts) {
+          printHostStatus(config, status);
+        }
+      }
+
+      if (!options.watch) {
+        return result;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  } finally {
+    for (const session of sessions) {
+      session.close();
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  addKnownHost,
+  fetchHostKey,
+  findKnownHostKeys,
+  fingerprintsMatch,
+  getKnownHostsPath,
+  getPinnedFingerprint,
+  removeKnownHost,
+} from "../lib/hostkeys.js";
+import { getJumpHosts, openJumpTunnel } from "../lib/ssh.js";
+import type { SSHConfig } from "../config/schema.js";
+import { logger } from "../utils/logger.js";
+
+export interface TrustResult {
+  success: boolean;
+  host: string;
+  fingerprint?: string;
+  /** The key was written to known_hosts */
+  added: boolean;
+  error?: string;
+}
+
+export interface TrustOptions {
+  /** Replace a different key already recorded for the host */
+  force?: boolean;
+  /** Hops to reach the host through (defaults to its ssh.jump) */
+  jumpHosts?: SSHConfig[];
+}
+
+/**
+ * Record the server's host key in known_hosts (trust on first use)
+ */
+export async function runTrust(
+  sshConfig: SSHConfig,
+  options: TrustOptions = {}
+): Promise<TrustResult> {
+  const { host, port } = sshConfig;
+  const knownHostsPath = getKnownHostsPath(sshConfig);
+
+  const spinner = logger.spinner(`Reading host key from ${host}...`);
+  spinner.start();
+
+  const fail = (error: string, fingerprint?: string): TrustResult => {
+    spinner.error({ text: error });
+    return { success: false, host, fingerprint, added: false, error };
+  };
+
+  const jumpHosts = options.jumpHosts ?? getJumpHosts(sshConfig);
+  let closeTunnel: (() => void) | undefined;
+
+  try {
+    const tunnel = jumpHosts.length ? await openJumpTunnel(sshConfig, jumpHosts) : null;
+    closeTunnel = tunnel?.close;
+
+    const hostKey = await fetchHostKey(sshConfig, tunnel?.sock);
+    const { fingerprint } = hostKey;
+
+    const pinned = getPinnedFingerprint(sshConfig);
+    if (pinned && !fingerprintsMatch(pinned, fingerprint)) {
+      return fail(`${host} sent ${fingerprint}, which does not match ssh.hostFingerprint`, fingerprint);
+    }
+
+    const known = findKnownHostKeys(knownHostsPath, host, port);
+
+    if (known.revoked.some((k) => k.key.equals(hostKey.key))) {
+      return fail(`Host key of ${host} (${fingerprint}) is marked as revoked`, fingerprint);
+    }
+
+    if (known.keys.some((k) => k.key.equals(hostKey.key))) {
+      spinner.success({ text: `${host} is already trusted (${hostKey.type} ${fingerprint})` });
+      return { success: true, host, fingerprint, added: false };
+    }
+
+    if (known.keys.some((k) => k.type === hostKey.type)) {
+      if (!options.force) {
+        return fail(
+          `Host key of ${host} has changed (now ${fingerprint}). Verify it with the server admin, then use --force to replace it.`,
+          fingerprint
+        );
+      }
+      removeKnownHost(knownHostsPath, host, port);
+    }
+
+    addKnownHost(knownHostsPath, host, port, hostKey);
+    spinner.success({ text: `Trusted ${host} (${hostKey.type} ${fingerprint}) in ${knownHostsPath}` });
+
+    return { success: true, host, fingerprint, added: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return fail(`Trust failed: ${message}`);
+  } finally {
+    closeTunnel?.();
+  }
+}
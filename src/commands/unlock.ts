@@ -0,0 +1,35 @@
+import { releaseLock, describeLock, type DeployLock } from "../lib/lock.js";
+import type { SSHConfig } from "../config/schema.js";
+import { logger } from "../utils/logger.js";
+
+export interface UnlockResult {
+  success: boolean;
+  /** The lock that was removed, null if the server was not locked */
+  lock: DeployLock | null;
+  error?: string;
+}
+
+/**
+ * Remove the deploy lock from the server, regardless of who holds it
+ */
+export async function runUnlock(sshConfig: SSHConfig, remotePath: string): Promise<UnlockResult> {
+  const spinner = logger.spinner(`Removing deploy lock on ${sshConfig.host}...`);
+  spinner.start();
+
+  try {
+    const lock = await releaseLock(sshConfig, remotePath);
+
+    if (lock) {
+      spinner.success({ text: `Removed lock held by ${describeLock(lock)}` });
+    } else {
+      spinner.success({ text: `${sshConfig.host} is not locked` });
+    }
+
+    return { success: true, lock };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    spinner.error({ text: `Unlock failed: ${message}` });
+
+    return { success: false, lock: null, error: message };
+  }
+}
@@ -1,45 +1,47 @@
-import { upload } from "../lib/rsync.js";
-import type { SSHConfig, UploadConfig } from "../config/schema.js";
-import { logger } from "../utils/logger.js";
+import pc from "picocolors";
+import { upload, type UploadOptions } from "../lib/rsync.js";
+import { getTargetConfig, type SSHTarget } from "../lib/ssh.js";
+import type { UploadConfig } from "../config/schema.js";
+import { formatBytes, logger } from "../utils/logger.js";
 
 export interface UploadCommandResult {
   success: boolean;
   method: "rsync" | "sftp";
   filesTransferred: number;
+  /** Files already on the server (SFTP) */
+  filesUnchanged?: number;
   bytesTransferred?: number;
+  /** Remote paths removed as stale (with dryRun: that would be removed) */
+  deleted?: string[];
+  /** rsync: file data sent vs. reused from the server */
+  literalBytes?: number;
+  matchedBytes?: number;
+  speedup?: number;
   duration: number;
   error?: string;
 }
 
-/**
- * Format bytes to human readable string
- */
-function formatBytes(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
-}
-
 /**
  * Upload files to server
  */
 export async function runUpload(
-  sshConfig: SSHConfig,
+  ssh: SSHTarget,
   uploadConfig: UploadConfig,
-  cwd: string = process.cwd()
+  cwd: string = process.cwd(),
+  options: UploadOptions = {}
 ): Promise<UploadCommandResult> {
   const startTime = Date.now();
+  const { host } = getTargetConfig(ssh);
 
   const spinner = logger.spinner(
-    `Uploading files to ${sshConfig.host}:${uploadConfig.remotePath}...`
+    `Uploading files to ${host}:${uploadConfig.remotePath}...`
   );
   spinner.start();
 
   try {
-    const result = await upload(sshConfig, uploadConfig, cwd, (message) => {
+    const result = await upload(ssh, uploadConfig, cwd, (message) => {
       spinner.update({ text: message });
-    });
+    }, options);
 
     if (!result.success) {
       spinner.error({ text: `Upload failed: ${result.error}` });
@@ -55,16 +57,33 @@ export async function runUpload(
     const sizeInfo = result.bytesTransferred
       ? `, ${formatBytes(result.bytesTransferred)}`
       : "";
+    const unchangedInfo = result.filesUnchanged ? `, ${result.filesUnchanged} unchanged` : "";
+    const deletedInfo = result.deleted?.length ? `, ${result.deleted.length} deleted` : "";
+    const speedupInfo = result.speedup ? `, speedup ${result.speedup.toFixed(1)}x` : "";
 
-    spinner.success({
-      text: `Upload completed (${result.filesTransferred} files${sizeInfo} via ${result.method})`,
-    });
+    if (options.dryRun) {
+      spinner.success({
+        text: `Dry run: ${result.filesTransferred} files would be uploaded${unchangedInfo}, ${result.deleted?.length ?? 0} deleted (${result.method})`,
+      });
+      for (const path of result.deleted ?? []) {
+        console.log(pc.red(`    - ${path}`));
+      }
+    } else {
+      spinner.success({
+        text: `Upload completed (${result.filesTransferred} files${sizeInfo}${unchangedInfo}${deletedInfo} via ${result.method}${speedupInfo})`,
+      });
+    }
 
     return {
       success: true,
       method: result.method,
       filesTransferred: result.filesTransferred,
+      filesUnchanged: result.filesUnchanged,
       bytesTransferred: result.bytesTransferred,
+      deleted: result.deleted,
+      literalBytes: result.literalBytes,
+      matchedBytes: result.matchedBytes,
+      speedup: result.speedup,
       duration: Date.now() - startTime,
     };
   } catch (error) {
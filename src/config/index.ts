@@ -2,13 +2,26 @@ export { loadConfig, hasConfigFile, type LoadConfigOptions } from "./loader.js";
 export {
   configSchema,
   sshConfigSchema,
+  jumpHostSchema,
   buildConfigSchema,
   uploadConfigSchema,
+  sftpConfigSchema,
   pm2ConfigSchema,
+  releasesConfigSchema,
+  healthCheckConfigSchema,
+  rolloutConfigSchema,
+  lockConfigSchema,
   type Config,
   type SSHConfig,
+  type JumpHostConfig,
   type BuildConfig,
   type UploadConfig,
+  type SFTPConfig,
   type PM2Config,
+  type ReleasesConfig,
+  type HealthCheckConfig,
+  type RolloutConfig,
+  type LockConfig,
   type PartialConfig,
+  type TargetConfig,
 } from "./schema.js";
@@ -0,0 +1,55 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { loadConfig } from "./loader.js";
+import { getHostConfigs } from "../lib/ssh.js";
+
+describe("loadConfig targets", () => {
+  let cwd: string;
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), "pxnship-loader-"));
+    delete process.env.SSH_HOST;
+    delete process.env.SSH_HOSTS;
+
+    writeFileSync(
+      join(cwd, ".pxnshiprc.json"),
+      JSON.stringify({
+        ssh: { hosts: ["prod1", "prod2"], user: "deploy", password: "secret" },
+        upload: { remotePath: "/var/www/app" },
+        pm2: { appName: "app" },
+        targets: {
+          staging: { ssh: { host: "staging1" } },
+        },
+      })
+    );
+    writeFileSync(join(cwd, ".env"), "SSH_HOST=prod.example.com\n");
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+    process.env = { ...savedEnv };
+  });
+
+  it("deploys a target only to its own host, not the base hosts or SSH_HOST", async () => {
+    const config = await loadConfig({ cwd, target: "staging" });
+
+    assert.equal(config.ssh.host, "staging1");
+    assert.deepEqual(
+      getHostConfigs(config.ssh).map((h) => h.host),
+      ["staging1"]
+    );
+  });
+
+  it("lets SSH_HOST replace the base hosts without a target", async () => {
+    const config = await loadConfig({ cwd });
+
+    assert.deepEqual(
+      getHostConfigs(config.ssh).map((h) => h.host),
+      ["prod.example.com"]
+    );
+  });
+});
@@ -3,19 +3,26 @@ import { resolve, join } from "node:path";
 import { homedir } from "node:os";
 import { pathToFileURL } from "node:url";
 import { config as loadEnv } from "dotenv";
-import { configSchema, type Config, type PartialConfig } from "./schema.js";
+import { configSchema, type Config, type JumpHostInput, type PartialConfig } from "./schema.js";
+import { parseJumpHost, resolveSSHHost } from "./ssh-config.js";
 
 /**
  * Load environment files in order (later files override earlier ones):
  * 1. .env (base)
  * 2. .env.local (local overrides, gitignored)
+ * 3. .env.<target> (target-specific, e.g. .env.staging)
+ * 4. .env.<target>.local (target-specific local overrides)
  */
-function loadEnvFiles(cwd: string = process.cwd()): void {
+function loadEnvFiles(cwd: string = process.cwd(), target?: string): void {
   const envFiles = [
     ".env",
     ".env.local",
   ];
 
+  if (target) {
+    envFiles.push(`.env.${target}`, `.env.${target}.local`);
+  }
+
   for (const file of envFiles) {
     const filePath = join(cwd, file);
     if (existsSync(filePath)) {
@@ -94,11 +101,25 @@ function getEnvConfig(): PartialConfig {
   return {
     ssh: {
       host: env.SSH_HOST,
+      hosts: env.SSH_HOSTS
+        ? env.SSH_HOSTS.split(",").map((h) => h.trim()).filter(Boolean)
+        : undefined,
       user: env.SSH_USER,
       port: env.SSH_PORT ? Number.parseInt(env.SSH_PORT, 10) : undefined,
       privateKey,
       privateKeyPath,
       password: env.SSH_PASSWORD,
+      passphrase: env.SSH_PASSPHRASE,
+      knownHostsPath: env.SSH_KNOWN_HOSTS,
+      hostFingerprint: env.SSH_HOST_FINGERPRINT,
+      strictHostKeyChecking: env.SSH_STRICT_HOST_KEY_CHECKING as
+        | "yes"
+        | "accept-new"
+        | "no"
+        | undefined,
+      jump: env.SSH_JUMP
+        ? env.SSH_JUMP.split(",").map((hop) => hop.trim()).filter(Boolean)
+        : undefined,
     },
     build: {
       command: env.BUILD_COMMAND,
@@ -107,6 +128,9 @@ function getEnvConfig(): PartialConfig {
     },
     upload: {
       remotePath: env.REMOTE_PATH,
+      bandwidthLimit: env.UPLOAD_BANDWIDTH_LIMIT
+        ? Number.parseInt(env.UPLOAD_BANDWIDTH_LIMIT, 10)
+        : undefined,
     },
     pm2: {
       appName: env.PM2_APP_NAME,
@@ -115,6 +139,89 @@ function getEnvConfig(): PartialConfig {
   };
 }
 
+/**
+ * Resolve ~/.ssh/config aliases in ssh.host / ssh.hosts
+ * HostName replaces the alias; User, Port and IdentityFile only fill in
+ * settings the pxnship config does not set itself.
+ */
+function resolveSSHAliases(ssh: NonNullable<PartialConfig["ssh"]>): void {
+  const entry = ssh.host ? resolveSSHHost(ssh.host) : null;
+
+  if (entry) {
+    ssh.user ??= entry.user;
+    ssh.port ??= entry.port;
+
+    const hasAuth = ssh.privateKeyPath || ssh.privateKey || ssh.password;
+    if (!hasAuth && entry.identityFile && existsSync(entry.identityFile)) {
+      ssh.privateKeyPath = entry.identityFile;
+    }
+  }
+
+  // ProxyJump of the alias, unless the pxnship config sets its own hops
+  if (!ssh.jump && entry?.proxyJump && entry.proxyJump !== "none") {
+    ssh.jump = entry.proxyJump.split(",");
+  }
+
+  const resolveName = (host: string) => resolveSSHHost(host)?.hostName ?? host;
+
+  if (ssh.host) {
+    ssh.host = resolveName(ssh.host);
+  }
+  if (ssh.hosts) {
+    ssh.hosts = ssh.hosts.map(resolveName);
+  }
+
+  // Fingerprints may be keyed by alias
+  if (ssh.hostFingerprint && typeof ssh.hostFingerprint === "object") {
+    ssh.hostFingerprint = Object.fromEntries(
+      Object.entries(ssh.hostFingerprint).map(([host, fp]) => [resolveName(host), fp])
+    );
+  }
+}
+
+/**
+ * Normalize ssh.jump hops: resolve ~/.ssh/config aliases and read key files
+ */
+function resolveJumpHosts(ssh: NonNullable<PartialConfig["ssh"]>): void {
+  if (!ssh.jump) {
+    return;
+  }
+
+  const hops = Array.isArray(ssh.jump) ? ssh.jump : [ssh.jump];
+
+  ssh.jump = hops.map((hop) => {
+    const resolved: JumpHostInput =
+      typeof hop === "string" ? parseJumpHost(hop) : { ...hop };
+    const entry = resolveSSHHost(resolved.host);
+
+    if (entry) {
+      resolved.user ??= entry.user;
+      resolved.port ??= entry.port;
+
+      const hasAuth = resolved.privateKeyPath || resolved.privateKey || resolved.password;
+      if (!hasAuth && entry.identityFile && existsSync(entry.identityFile)) {
+        resolved.privateKeyPath = entry.identityFile;
+      }
+      if (entry.hostName) {
+        resolved.host = entry.hostName;
+      }
+    }
+
+    if (resolved.privateKeyPath) {
+      resolved.privateKeyPath = expandTilde(resolved.privateKeyPath);
+
+      if (!resolved.privateKey) {
+        if (!existsSync(resolved.privateKeyPath)) {
+          throw new Error(`Jump host private key file not found: ${resolved.privateKeyPath}`);
+        }
+        resolved.privateKey = readFileSync(resolved.privateKeyPath, "utf-8");
+      }
+    }
+
+    return resolved;
+  });
+}
+
 /**
  * Deep merge two config objects
  */
@@ -172,9 +279,60 @@ function filterUndefined<T extends Record<string, unknown>>(obj: T): Partial<T>
   return result;
 }
 
+/**
+ * Merge a config layer over the layers below it
+ * Servers are chosen by ssh.host and ssh.hosts together: a layer that sets either one
+ * replaces both, so it never deploys to servers inherited from below.
+ */
+function mergeLayer(lower: PartialConfig, upper: PartialConfig): PartialConfig {
+  let base = lower;
+
+  if (lower.ssh && (upper.ssh?.host !== undefined || upper.ssh?.hosts !== undefined)) {
+    const { host: _host, hosts: _hosts, ...ssh } = lower.ssh;
+    base = { ...lower, ssh };
+  }
+
+  return deepMerge(base as Record<string, unknown>, upper as Record<string, unknown>) as PartialConfig;
+}
+
+/**
+ * Merge the base config, env config and the selected target, in that order
+ * Env values override the base config; a target's own settings override both, so
+ * e.g. SSH_HOST from .env cannot send a `--target staging` deploy to production.
+ */
+function resolveTarget(
+  fileConfig: PartialConfig,
+  envConfig: PartialConfig,
+  target?: string
+): PartialConfig {
+  const { targets, ...base } = fileConfig;
+  const merged = mergeLayer(base, envConfig);
+
+  if (!target) {
+    return merged;
+  }
+
+  const targetConfig = targets?.[target];
+
+  if (!targetConfig) {
+    const available = targets ? Object.keys(targets) : [];
+    throw new Error(
+      `Unknown target "${target}". ${
+        available.length > 0
+          ? `Available targets: ${available.join(", ")}`
+          : "No targets are defined in the config file"
+      }`
+    );
+  }
+
+  return { ...mergeLayer(merged, targetConfig), target };
+}
+
 export interface LoadConfigOptions {
   configPath?: string;
   cwd?: string;
+  /** Deploy target defined in `targets` (also loads .env.<target>) */
+  target?: string;
 }
 
 /**
@@ -183,8 +341,8 @@ export interface LoadConfigOptions {
 export async function loadConfig(options: LoadConfigOptions = {}): Promise<Config> {
   const cwd = options.cwd || process.cwd();
 
-  // Load .env and .env.local files
-  loadEnvFiles(cwd);
+  // Load .env, .env.local and target-specific env files
+  loadEnvFiles(cwd, options.target);
 
   let fileConfig: PartialConfig = {};
 
@@ -204,11 +362,23 @@ export async function loadConfig(options: LoadConfigOptions = {}): Promise<Confi
   // Get env config
   const envConfig = filterUndefined(getEnvConfig()) as PartialConfig;
 
-  // Merge: file config + env config (env takes precedence)
-  const mergedConfig = deepMerge(
-    fileConfig as Record<string, unknown>,
-    envConfig as Record<string, unknown>
-  ) as PartialConfig;
+  // Merge: file config + env config + target overrides
+  const mergedConfig = resolveTarget(fileConfig, envConfig, options.target);
+
+  // Fleet deploys: default host to the first entry of hosts
+  if (mergedConfig.ssh?.hosts?.length && !mergedConfig.ssh.host) {
+    mergedConfig.ssh.host = mergedConfig.ssh.hosts[0];
+  }
+
+  if (mergedConfig.ssh) {
+    resolveSSHAliases(mergedConfig.ssh);
+    resolveJumpHosts(mergedConfig.ssh);
+
+    // Use the running ssh-agent unless disabled with agent: false
+    if (mergedConfig.ssh.agent === undefined && process.env.SSH_AUTH_SOCK) {
+      mergedConfig.ssh.agent = process.env.SSH_AUTH_SOCK;
+    }
+  }
 
   // Expand SSH key path
   if (mergedConfig.ssh?.privateKeyPath) {
@@ -1,18 +1,75 @@
 import { z } from "zod";
+import { parseJumpHost } from "./ssh-config.js";
+
+/**
+ * Jump host (bastion) the connection is tunneled through
+ * Without its own credentials, a hop uses the key / password / agent of `ssh`
+ */
+export const jumpHostSchema = z.object({
+  host: z.string().min(1, "Jump host is required"),
+  /** Defaults to ssh.user */
+  user: z.string().optional(),
+  port: z.number().int().positive().default(22),
+  privateKeyPath: z.string().optional(),
+  privateKey: z.string().optional(),
+  password: z.string().optional(),
+  passphrase: z.string().optional(),
+});
+
+/**
+ * A hop as an object or "[user@]host[:port]"
+ */
+const jumpHostEntrySchema = z.union([
+  z.string().min(1).transform((value) => jumpHostSchema.parse(parseJumpHost(value))),
+  jumpHostSchema,
+]);
 
 /**
  * SSH connection settings
  */
 export const sshConfigSchema = z.object({
   host: z.string().min(1, "SSH host is required"),
+  /**
+   * Deploy the same build to several servers (e.g. behind a load balancer).
+   * Every other SSH setting is shared. `host` defaults to the first entry.
+   */
+  hosts: z.array(z.string().min(1)).optional(),
   user: z.string().min(1, "SSH user is required"),
   port: z.number().int().positive().default(22),
   privateKeyPath: z.string().optional(),
   privateKey: z.string().optional(),
   password: z.string().optional(),
+  /** Passphrase of an encrypted private key */
+  passphrase: z.string().optional(),
+  /**
+   * ssh-agent socket (defaults to SSH_AUTH_SOCK, "pageant" on Windows with PuTTY)
+   * Set to false to never use an agent
+   */
+  agent: z.union([z.string(), z.literal(false)]).optional(),
+  /** known_hosts file used to verify the server (shared with OpenSSH by default) */
+  knownHostsPath: z.string().default("~/.ssh/known_hosts"),
+  /**
+   * Pin the server key instead of using known_hosts, e.g. "SHA256:abc..."
+   * With several hosts, map each host to its fingerprint
+   */
+  hostFingerprint: z.union([z.string(), z.record(z.string(), z.string())]).optional(),
+  /**
+   * "yes" = only connect to known hosts (add them with `pxnship trust`)
+   * "accept-new" = record unknown hosts on first connect (unverified), refuse changed keys
+   * "no" = don't verify host keys (insecure)
+   */
+  strictHostKeyChecking: z.enum(["yes", "accept-new", "no"]).default("accept-new"),
+  /**
+   * Connect through a bastion: one hop or a chain (first entry is reached directly)
+   * e.g. "deploy@bastion.example.com:2222" or [{ host: "bastion", user: "jump" }, "inner-bastion"]
+   */
+  jump: z
+    .union([jumpHostEntrySchema, z.array(jumpHostEntrySchema)])
+    .transform((value) => (Array.isArray(value) ? value : [value]))
+    .optional(),
 }).refine(
-  (data) => data.privateKeyPath || data.privateKey || data.password,
-  { message: "Either privateKeyPath, privateKey, or password must be provided" }
+  (data) => data.privateKeyPath || data.privateKey || data.password || data.agent,
+  { message: "Either privateKeyPath, privateKey, password, or an ssh-agent must be provided" }
 );
 
 /**
@@ -31,6 +88,16 @@ export const buildConfigSchema = z.object({
   prepareLocally: z.boolean().default(true),
 });
 
+/**
+ * SFTP transfer settings (used when rsync is not available)
+ */
+export const sftpConfigSchema = z.object({
+  /** Files transferred at the same time */
+  concurrency: z.number().int().min(1).default(4),
+  /** Attempts per file after the first failure */
+  retries: z.number().int().min(0).default(2),
+});
+
 /**
  * Upload settings
  * Not: prepareLocally: true (default) kullanıldığında public/ ve .next/static/
@@ -38,23 +105,41 @@ export const buildConfigSchema = z.object({
  */
 export const uploadConfigSchema = z.object({
   remotePath: z.string().min(1, "Remote path is required"),
+  /** rsync-style patterns (see lib/patterns.ts); later patterns win, "!pattern" re-includes */
   exclude: z.array(z.string()).default([
     ".git",
     "node_modules",
     ".env.local",
     ".env*.local",
   ]),
+  /** Paths or globs to upload, relative to the project root */
   include: z.array(z.string()).default([
     ".next/standalone/",
   ]),
   useRsync: z.boolean().default(true),
   rsyncOptions: z.array(z.string()).default(["-avz", "--delete"]),
+  /**
+   * Remove remote files that are no longer part of the upload (rsync and SFTP)
+   * Defaults to whether rsyncOptions contains --delete
+   */
+  delete: z.boolean().optional(),
+  /** Remote paths never deleted, e.g. runtime config and user uploads */
+  protect: z.array(z.string()).default([".env", ".env.*", "uploads/"]),
+  /** Upload speed limit in KB/s (rsync --bwlimit, throttled streams with SFTP) */
+  bandwidthLimit: z.number().int().positive().optional(),
+  /**
+   * Compress transfers: true, false or a zlib level (1-9)
+   * rsync -z / --compress-level, zlib for SFTP. Defaults to whether rsyncOptions contains -z
+   */
+  compression: z.union([z.boolean(), z.number().int().min(1).max(9)]).optional(),
+  sftp: sftpConfigSchema.default({}),
 });
 
 /**
  * PM2 settings
  * ecosystem: true | "auto" = auto-detect ecosystem.config.js
  *            false = don't use ecosystem file
+ *            "generate" = write ecosystem.config.cjs from these settings
  *            "filename.js" = use specific ecosystem file
  */
 export const pm2ConfigSchema = z.object({
@@ -64,9 +149,84 @@ export const pm2ConfigSchema = z.object({
   port: z.number().int().positive().optional(),
   /**
    * Environment variables to inject when PM2 starts or reloads
-   * These are passed to the PM2 process via shell environment
+   * These are passed to the PM2 process via shell environment, or written to envFile
    */
   env: z.record(z.string(), z.string()).optional(),
+  /**
+   * Write env to a file on the server (mode 0600) instead of the pm2 command line
+   * true = .next/standalone/.env.production, or a path relative to remotePath.
+   * The standalone server loads it with `node --env-file` (Node 20.6+), so the
+   * values also apply after `pm2 resurrect`. A user-maintained ecosystem file still
+   * gets env on the command line, as only that file can load the env file.
+   */
+  envFile: z.union([z.boolean(), z.string().min(1)]).default(false),
+  /**
+   * Cluster settings of the generated ecosystem file (ecosystem: "generate")
+   * instances: number of processes or "max" (one per CPU); cluster mode unless execMode is "fork"
+   */
+  instances: z.union([z.number().int().positive(), z.literal("max")]).optional(),
+  execMode: z.enum(["fork", "cluster"]).optional(),
+  /** Restart a process above this memory use: bytes, or e.g. "512M", "1G" */
+  maxMemoryRestart: z
+    .union([z.number().int().positive(), z.string().regex(/^\d+[KMG]?$/i, "Expected e.g. 512M")])
+    .optional(),
+  /** Log files of the generated ecosystem file, relative to the app directory unless absolute */
+  outFile: z.string().min(1).optional(),
+  errorFile: z.string().min(1).optional(),
+  /** Extra node arguments for the generated ecosystem file */
+  nodeArgs: z.union([z.string(), z.array(z.string())]).optional(),
+  /** Max time for a PM2 start/reload command (ms) before it is cancelled */
+  timeout: z.number().int().positive().default(2 * 60 * 1000),
+});
+
+/**
+ * Health check settings
+ * The URL is requested from the server itself over SSH (curl), so localhost
+ * refers to the deploy target. Without `url`, http://localhost:<pm2.port><path> is used.
+ */
+export const healthCheckConfigSchema = z.object({
+  url: z.string().url().optional(),
+  path: z.string().startsWith("/").default("/"),
+  expectedStatus: z.number().int().min(100).max(599).default(200),
+  /** Substring the response body must contain */
+  bodyMatch: z.string().optional(),
+  /** Request timeout in milliseconds */
+  timeout: z.number().int().positive().default(5000),
+  retries: z.number().int().min(1).default(5),
+  /** Delay between retries in milliseconds */
+  interval: z.number().int().nonnegative().default(2000),
+});
+
+/**
+ * Rollout settings (used when ssh.hosts lists more than one server)
+ * strategy: "parallel" = upload and restart all hosts at once
+ *           "rolling" = deploy batchSize hosts at a time, stop on the first failure
+ */
+export const rolloutConfigSchema = z.object({
+  strategy: z.enum(["parallel", "rolling"]).default("rolling"),
+  batchSize: z.number().int().min(1).default(1),
+});
+
+/**
+ * Deploy lock settings
+ * A lock file in <remotePath>/.pxnship/ stops concurrent `ship` runs against the same server
+ */
+export const lockConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Locks not refreshed for this long are considered stale and replaced (ms) */
+  ttl: z.number().int().positive().default(30 * 60 * 1000),
+});
+
+/**
+ * Release settings
+ * enabled: true = Capistrano-style layout, each deploy is uploaded into
+ *          releases/<timestamp>/ and the `current` symlink is switched atomically
+ *          (POSIX targets only)
+ * keep: number of releases kept on the server, older ones are pruned after each deploy
+ */
+export const releasesConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  keep: z.number().int().min(1).default(5),
 });
 
 /**
@@ -77,20 +237,47 @@ export const configSchema = z.object({
   build: buildConfigSchema.default({}),
   upload: uploadConfigSchema,
   pm2: pm2ConfigSchema,
+  releases: releasesConfigSchema.default({}),
+  rollout: rolloutConfigSchema.default({}),
+  lock: lockConfigSchema.default({}),
+  healthCheck: healthCheckConfigSchema.optional(),
+  /** Name of the target the config was resolved for (set by loadConfig) */
+  target: z.string().optional(),
 });
 
 export type SSHConfig = z.infer<typeof sshConfigSchema>;
 export type BuildConfig = z.infer<typeof buildConfigSchema>;
 export type UploadConfig = z.infer<typeof uploadConfigSchema>;
+export type SFTPConfig = z.infer<typeof sftpConfigSchema>;
 export type PM2Config = z.infer<typeof pm2ConfigSchema>;
+export type JumpHostConfig = z.infer<typeof jumpHostSchema>;
+export type JumpHostInput = z.input<typeof jumpHostSchema>;
+export type ReleasesConfig = z.infer<typeof releasesConfigSchema>;
+export type HealthCheckConfig = z.infer<typeof healthCheckConfigSchema>;
+export type RolloutConfig = z.infer<typeof rolloutConfigSchema>;
+export type LockConfig = z.infer<typeof lockConfigSchema>;
 export type Config = z.infer<typeof configSchema>;
 
 /**
- * Partial config (to be merged with env variables)
+ * Target overrides (deep-merged over the shared base config)
  */
-export type PartialConfig = {
+export type TargetConfig = {
   ssh?: Partial<z.input<typeof sshConfigSchema>>;
   build?: Partial<z.input<typeof buildConfigSchema>>;
   upload?: Partial<z.input<typeof uploadConfigSchema>>;
   pm2?: Partial<z.input<typeof pm2ConfigSchema>>;
+  releases?: Partial<z.input<typeof releasesConfigSchema>>;
+  rollout?: Partial<z.input<typeof rolloutConfigSchema>>;
+  lock?: Partial<z.input<typeof lockConfigSchema>>;
+  healthCheck?: Partial<z.input<typeof healthCheckConfigSchema>>;
+};
+
+/**
+ * Partial config (to be merged with env variables)
+ * targets: named deploy targets, e.g. { staging: {...}, production: {...} },
+ *          selected with `--target <name>`
+ */
+export type PartialConfig = TargetConfig & {
+  targets?: Record<string, TargetConfig>;
+  target?: string;
 };
@@ -0,0 +1,153 @@
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * Settings read from ~/.ssh/config for one host alias
+ */
+export interface SSHHostEntry {
+  hostName?: string;
+  user?: string;
+  port?: number;
+  identityFile?: string;
+  proxyJump?: string;
+}
+
+/**
+ * Default OpenSSH client config file
+ */
+export function getSSHConfigPath(): string {
+  return join(homedir(), ".ssh", "config");
+}
+
+/**
+ * Match a host against a `Host` line (space-separated patterns, * and ? wildcards, ! negation)
+ */
+function matchesHostPatterns(patterns: string[], host: string): boolean {
+  let matched = false;
+
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith("!");
+    const glob = negated ? pattern.slice(1) : pattern;
+    const regex = new RegExp(
+      `^${glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`,
+      "i"
+    );
+
+    if (regex.test(host)) {
+      if (negated) return false;
+      matched = true;
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Expand ~ and the %h / %u / %p / %% tokens OpenSSH supports in paths
+ */
+function expandValue(value: string, host: string, entry: SSHHostEntry): string {
+  const expanded = value.replace(/%([hupr%])/g, (token, key: string) => {
+    switch (key) {
+      case "h":
+        return entry.hostName ?? host;
+      case "u":
+      case "r":
+        return entry.user ?? token;
+      case "p":
+        return String(entry.port ?? 22);
+      default:
+        return "%";
+    }
+  });
+
+  return expanded.startsWith("~") ? join(homedir(), expanded.slice(1)) : expanded;
+}
+
+/**
+ * Resolve a host alias from an OpenSSH client config file
+ * Like OpenSSH, the first value found for each setting wins. `Match` blocks
+ * and `Include` directives are not supported.
+ * @returns The settings for the host, or null if no `Host` block matches
+ */
+export function resolveSSHHost(
+  host: string,
+  configPath: string = getSSHConfigPath()
+): SSHHostEntry | null {
+  if (!existsSync(configPath)) {
+    return null;
+  }
+
+  const entry: SSHHostEntry = {};
+  let active = true;
+  let found = false;
+
+  for (const rawLine of readFileSync(configPath, "utf-8").split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    // "Keyword value" or "Keyword=value"
+    const match = line.match(/^(\S+?)(?:\s*=\s*|\s+)(.+)$/);
+    if (!match?.[1] || !match[2]) continue;
+
+    const keyword = match[1].toLowerCase();
+    const value = match[2].trim().replace(/^"(.*)"$/, "$1");
+
+    if (keyword === "host") {
+      active = matchesHostPatterns(value.split(/\s+/), host);
+      found ||= active;
+      continue;
+    }
+
+    if (keyword === "match") {
+      active = false;
+      continue;
+    }
+
+    if (!active) continue;
+
+    switch (keyword) {
+      case "hostname":
+        entry.hostName ??= value;
+        break;
+      case "user":
+        entry.user ??= value;
+        break;
+      case "port":
+        entry.port ??= Number.parseInt(value, 10) || undefined;
+        break;
+      case "identityfile":
+        entry.identityFile ??= value;
+        break;
+      case "proxyjump":
+        entry.proxyJump ??= value;
+        break;
+    }
+  }
+
+  if (!found) {
+    return null;
+  }
+
+  if (entry.hostName) entry.hostName = expandValue(entry.hostName, host, entry);
+  if (entry.identityFile) entry.identityFile = expandValue(entry.identityFile, host, entry);
+
+  return entry;
+}
+
+/**
+ * Parse a "[user@]host[:port]" jump host (also "[user@][ipv6]:port")
+ */
+export function parseJumpHost(value: string): { host: string; user?: string; port?: number } {
+  const match = value.trim().match(/^(?:([^@]+)@)?(\[[^\]]+\]|[^:]+)(?::(\d+))?$/);
+
+  if (!match?.[2]) {
+    throw new Error(`Invalid jump host "${value}". Use [user@]host[:port].`);
+  }
+
+  return {
+    host: match[2].replace(/^\[(.*)\]$/, "$1"),
+    user: match[1],
+    port: match[3] ? Number.parseInt(match[3], 10) : undefined,
+  };
+}
@@ -6,19 +6,165 @@ export {
   configSchema,
   type Config,
   type SSHConfig,
+  type JumpHostConfig,
   type BuildConfig,
   type UploadConfig,
+  type SFTPConfig,
   type PM2Config,
+  type ReleasesConfig,
+  type HealthCheckConfig,
+  type RolloutConfig,
+  type LockConfig,
   type PartialConfig,
+  type TargetConfig,
 } from "./config/schema.js";
 
 export { runBuild, type BuildResult } from "./commands/build.js";
 export { runUpload, type UploadCommandResult } from "./commands/upload.js";
+export type { UploadOptions, FileChange } from "./lib/rsync.js";
 export { runPrepare, type PrepareResult } from "./commands/prepare.js";
 export { runRestart, type RestartResult } from "./commands/restart.js";
-export { runShip, type ShipResult, type ShipOptions } from "./commands/ship.js";
+export {
+  runShip,
+  type ShipResult,
+  type ShipOptions,
+  type HostShipResult,
+  type HostSteps,
+} from "./commands/ship.js";
 export { runPack, type PackResult, type PackOptions } from "./commands/pack.js";
+export { runRollback, type RollbackResult, type RollbackOptions } from "./commands/rollback.js";
+export { runUnlock, type UnlockResult } from "./commands/unlock.js";
+export { runHistory, type HistoryResult, type HistoryOptions } from "./commands/history.js";
+export {
+  runStatus,
+  type StatusResult,
+  type StatusOptions,
+  type HostStatus,
+} from "./commands/status.js";
+export { runLogs, type LogsResult, type LogsOptions } from "./commands/logs.js";
+export { runTrust, type TrustResult, type TrustOptions } from "./commands/trust.js";
+export { runDiff, type DiffResult, type DiffOptions, type HostDiff } from "./commands/diff.js";
 
-export { createSSHConnection, testConnection, execRemoteCommand } from "./lib/ssh.js";
-export { upload, uploadWithRsync, uploadWithSFTP, collectFiles, isRsyncAvailable, isSshpassAvailable } from "./lib/rsync.js";
-export { reloadApp, getAppStatus, verifyAppRunning, startApp } from "./lib/pm2.js";
+export {
+  createSSHConnection,
+  createSSHSession,
+  connectTarget,
+  testConnection,
+  execRemoteCommand,
+  getHostConfigs,
+  getJumpHosts,
+  openJumpTunnel,
+  type SSHConnection,
+  type SSHSession,
+  type SSHTarget,
+  type ConnectOptions,
+  type ExecOptions,
+  type ExecResult,
+} from "./lib/ssh.js";
+export {
+  upload,
+  uploadWithRsync,
+  uploadWithSFTP,
+  collectFiles,
+  isDeleteEnabled,
+  isCompressionEnabled,
+  isRsyncAvailable,
+  isSshpassAvailable,
+} from "./lib/rsync.js";
+export {
+  compilePattern,
+  matchesPattern,
+  createPathFilter,
+  expandIncludePatterns,
+  toRsyncFilterRules,
+  type PathPattern,
+  type PathFilter,
+} from "./lib/patterns.js";
+export {
+  uploadFilesWithSFTP,
+  readManifest,
+  writeManifest,
+  writeRemoteFile,
+  hashFile,
+  listRemoteFiles,
+  pruneRemoteFiles,
+  type SFTPFile,
+  type SFTPProgress,
+  type SFTPUploadOptions,
+  type SFTPUploadResult,
+  type UploadManifest,
+  type ManifestEntry,
+  type RemoteListing,
+  type PruneOptions,
+  type PruneResult,
+} from "./lib/sftp.js";
+export {
+  reloadApp,
+  getAppStatus,
+  verifyAppRunning,
+  startApp,
+  type PM2Result,
+  type ReloadOptions,
+  type PM2StatusResult,
+  type PM2ProcessInfo,
+} from "./lib/pm2.js";
+export {
+  detectPlatform,
+  getRemotePlatform,
+  toWindowsPath,
+  toSftpPath,
+  type RemotePlatform,
+  type RemoteShell,
+} from "./lib/platform.js";
+export { quotePosix, quoteCmd, quotePowerShell, escapeCmd } from "./lib/quote.js";
+export {
+  formatEnvFile,
+  getEnvFile,
+  writeEnvFile,
+  DEFAULT_ENV_FILE,
+} from "./lib/envfile.js";
+export {
+  formatEcosystemFile,
+  writeEcosystemFile,
+  GENERATED_ECOSYSTEM_FILE,
+} from "./lib/ecosystem.js";
+export { streamLogs, parseSince, type LogLine, type LogOptions } from "./lib/logs.js";
+export {
+  fetchHostKey,
+  verifyHostKey,
+  getFingerprint,
+  findKnownHostKeys,
+  addKnownHost,
+  type HostKey,
+  type HostKeyCheck,
+} from "./lib/hostkeys.js";
+export { checkHealth, getHealthCheckUrl, type HealthCheckResult } from "./lib/health.js";
+export {
+  acquireLock,
+  releaseLock,
+  refreshLock,
+  readLock,
+  createLockInfo,
+  describeLock,
+  type DeployLock,
+  type LockResult,
+} from "./lib/lock.js";
+export { getGitInfo, type GitInfo } from "./lib/git.js";
+export {
+  appendDeployRecord,
+  readDeployHistory,
+  createDeployRecord,
+  type DeployRecord,
+} from "./lib/history.js";
+export {
+  createReleaseName,
+  prepareRelease,
+  activateRelease,
+  getReleasePath,
+  getCurrentPath,
+  getReleaseState,
+  pruneReleases,
+  removeRelease,
+  type ReleaseInfo,
+  type ReleaseState,
+} from "./lib/releases.js";
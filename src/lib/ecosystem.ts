@@ -0,0 +1,97 @@
+import { posix } from "node:path";
+import { toSftpPath, type RemotePlatform } from "./platform.js";
+import { writeRemoteFile } from "./sftp.js";
+import type { SSHSession } from "./ssh.js";
+import type { PM2Config } from "../config/schema.js";
+
+/**
+ * Ecosystem file written for `pm2.ecosystem: "generate"`
+ * .cjs so PM2 can require() it even if the app's package.json has "type": "module"
+ */
+export const GENERATED_ECOSYSTEM_FILE = "ecosystem.config.cjs";
+
+/**
+ * Node arguments of the app: pm2.nodeArgs, plus --env-file with an env file
+ */
+function getNodeArgs(pm2Config: PM2Config, envFilePath: string | null): string[] {
+  const { nodeArgs = [] } = pm2Config;
+  const args = typeof nodeArgs === "string" ? nodeArgs.split(/\s+/).filter(Boolean) : [...nodeArgs];
+  if (envFilePath) {
+    args.push(`--env-file=${envFilePath}`);
+  }
+  return args;
+}
+
+/**
+ * PM2 app declaration for the standalone server
+ * Cluster mode is used when pm2.instances is set, unless pm2.execMode says otherwise.
+ */
+function getAppDeclaration(
+  platform: RemotePlatform,
+  dir: string,
+  pm2Config: PM2Config,
+  env: Record<string, string>,
+  envFilePath: string | null
+): Record<string, unknown> {
+  const { appName, instances, execMode, maxMemoryRestart, outFile, errorFile } = pm2Config;
+  const nodeArgs = getNodeArgs(pm2Config, envFilePath);
+
+  const app: Record<string, unknown> = {
+    name: appName,
+    script: platform.resolve(dir, ".next/standalone/server.js"),
+    // The `current` symlink as given, not the release it resolves to (see getStartCommand)
+    cwd: platform.path(dir),
+    exec_mode: execMode ?? (instances !== undefined ? "cluster" : "fork"),
+  };
+
+  if (instances !== undefined) app.instances = instances;
+  if (maxMemoryRestart !== undefined) app.max_memory_restart = maxMemoryRestart;
+  if (outFile) app.out_file = platform.resolve(dir, outFile);
+  if (errorFile) app.error_file = platform.resolve(dir, errorFile);
+  if (nodeArgs.length) app.node_args = nodeArgs;
+  if (Object.keys(env).length) app.env = env;
+
+  return app;
+}
+
+/**
+ * Content of the generated ecosystem file
+ * Values are written as JSON, so paths and env values need no escaping.
+ * @param env Environment of the app (empty when it is loaded from an env file)
+ * @param envFilePath Env file for node --env-file, null if none
+ */
+export function formatEcosystemFile(
+  platform: RemotePlatform,
+  dir: string,
+  pm2Config: PM2Config,
+  env: Record<string, string>,
+  envFilePath: string | null
+): string {
+  const app = getAppDeclaration(platform, dir, pm2Config, env, envFilePath);
+  const apps = JSON.stringify([app], null, 2).replace(/\n/g, "\n  ");
+
+  return [
+    "// Generated by pxnship from pm2 config - changes are overwritten on the next deploy",
+    "module.exports = {",
+    `  apps: ${apps},`,
+    "};",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Upload the generated ecosystem file into the app directory
+ * Mode 0600 since it may contain env values
+ * @returns Path of the file in the target's notation, as given to PM2
+ */
+export async function writeEcosystemFile(
+  conn: SSHSession,
+  platform: RemotePlatform,
+  dir: string,
+  content: string
+): Promise<string> {
+  const path = platform.resolve(dir, GENERATED_ECOSYSTEM_FILE);
+  const sftp = await conn.sftp();
+  await writeRemoteFile(sftp, posix.normalize(toSftpPath(path)), content, 0o600);
+  return path;
+}
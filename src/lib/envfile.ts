@@ -0,0 +1,66 @@
+import { posix } from "node:path";
+import { toSftpPath } from "./platform.js";
+import { assertEnvName } from "./quote.js";
+import { writeRemoteFile } from "./sftp.js";
+import type { SSHSession } from "./ssh.js";
+import type { PM2Config } from "../config/schema.js";
+
+/**
+ * Env file for `pm2.envFile: true`, next to the standalone server.js
+ */
+export const DEFAULT_ENV_FILE = ".next/standalone/.env.production";
+
+/**
+ * Quote a value for dotenv and `node --env-file`
+ * Single quotes and backticks keep the value literal. Inside double quotes both
+ * parsers turn "\n" into a line break and have no escape for a backslash, so double
+ * quotes are only used for values without one. Line breaks are kept inside the quotes.
+ */
+function formatEnvValue(name: string, value: string): string {
+  for (const quote of ["'", "`"]) {
+    if (!value.includes(quote)) {
+      return `${quote}${value}${quote}`;
+    }
+  }
+  if (!value.includes('"') && !value.includes("\\")) {
+    return `"${value}"`;
+  }
+  throw new Error(
+    `pm2.env.${name} contains ' and \` together with " or \\ and cannot be written to an env file unchanged`
+  );
+}
+
+/**
+ * Content of an env file (KEY='value' lines)
+ */
+export function formatEnvFile(env: Record<string, string>): string {
+  return Object.entries(env)
+    .map(([name, value]) => `${assertEnvName(name)}=${formatEnvValue(name, value)}`)
+    .join("\n")
+    .concat("\n");
+}
+
+/**
+ * Env file of the pm2.envFile setting, relative to the app directory unless absolute
+ * @returns null if pm2.env is passed on the command line
+ */
+export function getEnvFile(pm2Config: PM2Config): string | null {
+  const { envFile } = pm2Config;
+  if (!envFile) {
+    return null;
+  }
+  return envFile === true ? DEFAULT_ENV_FILE : envFile;
+}
+
+/**
+ * Upload an env file over SFTP, readable only by the SSH user (mode 0600)
+ * @param path Remote path, in POSIX or Windows form
+ */
+export async function writeEnvFile(
+  conn: SSHSession,
+  path: string,
+  env: Record<string, string>
+): Promise<void> {
+  const sftp = await conn.sftp();
+  await writeRemoteFile(sftp, posix.normalize(toSftpPath(path)), formatEnvFile(env), 0o600);
+}
@@ -0,0 +1,55 @@
+import { execa } from "execa";
+import { userInfo } from "node:os";
+
+export interface GitInfo {
+  sha: string | null;
+  branch: string | null;
+  dirty: boolean;
+}
+
+/**
+ * Run a git command, returning null when git or the repository is not available
+ */
+async function git(args: string[], cwd: string): Promise<string | null> {
+  try {
+    const result = await execa("git", args, { cwd });
+    return result.stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the commit being deployed from the local repository
+ */
+export async function getGitInfo(cwd: string = process.cwd()): Promise<GitInfo> {
+  const sha = await git(["rev-parse", "HEAD"], cwd);
+
+  if (!sha) {
+    return { sha: null, branch: null, dirty: false };
+  }
+
+  const branch = await git(["rev-parse", "--abbrev-ref", "HEAD"], cwd);
+  const status = await git(["status", "--porcelain"], cwd);
+
+  return {
+    sha,
+    branch: branch && branch !== "HEAD" ? branch : null,
+    dirty: Boolean(status),
+  };
+}
+
+/**
+ * Name of the person (or CI actor) running the deploy
+ */
+export function getDeployUser(): string {
+  const env = process.env;
+  if (env.GITHUB_ACTOR) return env.GITHUB_ACTOR;
+  if (env.GITLAB_USER_LOGIN) return env.GITLAB_USER_LOGIN;
+
+  try {
+    return userInfo().username;
+  } catch {
+    return env.USER || env.USERNAME || "unknown";
+  }
+}
@@ -0,0 +1,120 @@
+import { detectPlatform } from "./platform.js";
+import { connectTarget, type SSHSession, type SSHTarget } from "./ssh.js";
+import type { HealthCheckConfig } from "../config/schema.js";
+
+export interface HealthCheckResult {
+  success: boolean;
+  url: string;
+  statusCode?: number;
+  attempts: number;
+  error?: string;
+}
+
+/**
+ * Resolve the URL to probe on the server
+ */
+export function getHealthCheckUrl(healthCheck: HealthCheckConfig, port?: number): string {
+  if (healthCheck.url) {
+    return healthCheck.url;
+  }
+  return `http://localhost:${port ?? 3000}${healthCheck.path}`;
+}
+
+/**
+ * Request the URL once with curl on the server
+ * The status code is appended to the body on its own line (-w). PowerShell aliases
+ * `curl` to Invoke-WebRequest, so the real binary is called there (curl.exe, Windows 10+).
+ */
+async function probe(
+  conn: SSHSession,
+  url: string,
+  healthCheck: HealthCheckConfig
+): Promise<{ statusCode?: number; error?: string }> {
+  const maxTime = Math.max(1, Math.ceil(healthCheck.timeout / 1000));
+  const platform = await detectPlatform(conn);
+  const curl = platform.shell === "powershell" ? "curl.exe" : "curl";
+  const result = await conn.exec(
+    `${curl} -s -S -o - -w ${platform.quote("\\n%{http_code}")} --max-time ${maxTime} ${platform.quote(url)}`
+  );
+
+  // 127 from sh, 9009 from cmd.exe, PowerShell only says so on stderr
+  if (result.code === 127 || result.code === 9009 || /is not recognized/.test(result.stderr)) {
+    return { error: "curl not found on the server" };
+  }
+
+  const output = result.stdout.replace(/\r?\n$/, "");
+  const separator = output.lastIndexOf("\n");
+  const statusCode = Number.parseInt(output.slice(separator + 1), 10);
+  const body = separator >= 0 ? output.slice(0, separator) : "";
+
+  if (result.code !== 0 || !statusCode) {
+    return { error: result.stderr.trim() || `curl failed with code ${result.code}` };
+  }
+
+  if (statusCode !== healthCheck.expectedStatus) {
+    return {
+      statusCode,
+      error: `Expected status ${healthCheck.expectedStatus}, got ${statusCode}`,
+    };
+  }
+
+  if (healthCheck.bodyMatch && !body.includes(healthCheck.bodyMatch)) {
+    return {
+      statusCode,
+      error: `Response body does not contain "${healthCheck.bodyMatch}"`,
+    };
+  }
+
+  return { statusCode };
+}
+
+/**
+ * Probe the app over HTTP from the server until it responds as expected
+ */
+export async function checkHealth(
+  ssh: SSHTarget,
+  healthCheck: HealthCheckConfig,
+  port?: number
+): Promise<HealthCheckResult> {
+  const url = getHealthCheckUrl(healthCheck, port);
+  let conn: SSHSession | null = null;
+  let lastError: string | undefined;
+  let lastStatus: number | undefined;
+
+  try {
+    conn = await connectTarget(ssh);
+
+    for (let attempt = 1; attempt <= healthCheck.retries; attempt++) {
+      const result = await probe(conn, url, healthCheck);
+
+      if (!result.error) {
+        return { success: true, url, statusCode: result.statusCode, attempts: attempt };
+      }
+
+      lastError = result.error;
+      lastStatus = result.statusCode;
+
+      // Wait before next retry
+      if (attempt < healthCheck.retries) {
+        await new Promise((resolve) => setTimeout(resolve, healthCheck.interval));
+      }
+    }
+
+    return {
+      success: false,
+      url,
+      statusCode: lastStatus,
+      attempts: healthCheck.retries,
+      error: `Health check failed for ${url}: ${lastError}`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      url,
+      attempts: 0,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    conn?.close();
+  }
+}
@@ -0,0 +1,114 @@
+import { hostname } from "node:os";
+import { posix } from "node:path";
+import { connectTarget, ensureRemoteDir, type SSHTarget } from "./ssh.js";
+import { getDeployUser, type GitInfo } from "./git.js";
+import { getStatePath } from "./state.js";
+
+const HISTORY_FILE = "deploys.jsonl";
+
+export interface DeployRecord {
+  timestamp: string;
+  /** Server the record was written to */
+  host: string;
+  target?: string;
+  user: string;
+  /** Machine the deploy ran on */
+  hostname: string;
+  sha: string | null;
+  branch: string | null;
+  dirty: boolean;
+  success: boolean;
+  release?: string;
+  /** Step durations in milliseconds */
+  steps: Record<string, number>;
+  totalDuration: number;
+  upload?: {
+    method: string;
+    files?: number;
+    bytes?: number;
+  };
+  error?: string;
+}
+
+/**
+ * Create a deploy record for this machine and commit
+ */
+export function createDeployRecord(
+  git: GitInfo,
+  fields: Omit<DeployRecord, "timestamp" | "user" | "hostname" | "sha" | "branch" | "dirty">
+): DeployRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    user: getDeployUser(),
+    hostname: hostname(),
+    sha: git.sha,
+    branch: git.branch,
+    dirty: git.dirty,
+    ...fields,
+  };
+}
+
+/**
+ * Append a record to <remotePath>/.pxnship/deploys.jsonl
+ */
+export async function appendDeployRecord(
+  ssh: SSHTarget,
+  remotePath: string,
+  record: DeployRecord
+): Promise<void> {
+  const conn = await connectTarget(ssh);
+
+  try {
+    const sftp = await conn.sftp();
+    const historyPath = getStatePath(remotePath, HISTORY_FILE);
+    await ensureRemoteDir(sftp, posix.dirname(historyPath));
+
+    await new Promise<void>((resolve, reject) => {
+      sftp.appendFile(historyPath, `${JSON.stringify(record)}\n`, { mode: 0o644 }, (err) => {
+        if (err) {
+          reject(new Error(`Failed to write deploy history: ${err.message}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  } finally {
+    conn.close();
+  }
+}
+
+/**
+ * Read deploy records from the server (newest first)
+ */
+export async function readDeployHistory(
+  ssh: SSHTarget,
+  remotePath: string,
+  limit?: number
+): Promise<DeployRecord[]> {
+  const conn = await connectTarget(ssh);
+
+  try {
+    const sftp = await conn.sftp();
+    const content = await new Promise<string>((resolve) => {
+      sftp.readFile(getStatePath(remotePath, HISTORY_FILE), (err, data) => {
+        // No history yet
+        resolve(err ? "" : data.toString("utf-8"));
+      });
+    });
+
+    const records: DeployRecord[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as DeployRecord);
+      } catch {
+        // Skip corrupted lines
+      }
+    }
+
+    records.reverse();
+    return limit ? records.slice(0, limit) : records;
+  } finally {
+    conn.close();
+  }
+}
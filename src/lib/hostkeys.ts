@@ -0,0 +1,386 @@
+import { createHash, createHmac } from "node:crypto";
+import {
+  appendFileSync,
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  realpathSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir, tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import ssh2, { type ClientChannel } from "ssh2";
+import type { SSHConfig } from "../config/schema.js";
+
+export interface HostKey {
+  /** Key algorithm, e.g. "ssh-ed25519" */
+  type: string;
+  /** Raw public key blob */
+  key: Buffer;
+  /** OpenSSH style fingerprint, e.g. "SHA256:abc..." */
+  fingerprint: string;
+}
+
+export interface KnownHostKeys {
+  keys: HostKey[];
+  /** Keys marked @revoked for this host */
+  revoked: HostKey[];
+}
+
+export interface HostKeyCheck {
+  trusted: boolean;
+  /** The key was unknown and has been added to known_hosts (accept-new) */
+  added?: boolean;
+  error?: string;
+}
+
+/**
+ * OpenSSH SHA256 fingerprint of a raw public key
+ */
+export function getFingerprint(key: Buffer): string {
+  return `SHA256:${createHash("sha256").update(key).digest("base64").replace(/=+$/, "")}`;
+}
+
+/**
+ * Read the algorithm name from a raw public key blob (uint32 length + name)
+ */
+export function parseHostKey(key: Buffer): HostKey {
+  const length = key.length >= 4 ? key.readUInt32BE(0) : 0;
+  const type = key.subarray(4, 4 + length).toString("ascii") || "unknown";
+  return { type, key, fingerprint: getFingerprint(key) };
+}
+
+/**
+ * Compare fingerprints, ignoring the "SHA256:" prefix and base64 padding
+ */
+export function fingerprintsMatch(a: string, b: string): boolean {
+  const normalize = (value: string) => value.trim().replace(/^SHA256:/i, "").replace(/=+$/, "");
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * known_hosts file for a config (~ is expanded)
+ */
+export function getKnownHostsPath(sshConfig: SSHConfig): string {
+  const path = sshConfig.knownHostsPath;
+  return path.startsWith("~") ? join(homedir(), path.slice(1)) : path;
+}
+
+/**
+ * Pinned fingerprint for the config's host, if any
+ */
+export function getPinnedFingerprint(sshConfig: SSHConfig): string | undefined {
+  const { hostFingerprint } = sshConfig;
+  if (!hostFingerprint) return undefined;
+  return typeof hostFingerprint === "string" ? hostFingerprint : hostFingerprint[sshConfig.host];
+}
+
+/**
+ * Host name as written in known_hosts: "host" for port 22, "[host]:port" otherwise
+ */
+function knownHostName(host: string, port: number): string {
+  return port === 22 ? host : `[${host}]:${port}`;
+}
+
+/**
+ * Match one known_hosts host field (comma-separated patterns, wildcards, hashed names)
+ */
+function matchesHostField(field: string, name: string): boolean {
+  // Hashed entry: |1|<salt>|<hmac-sha1(salt, name)>
+  if (field.startsWith("|1|")) {
+    const [, , salt, hash] = field.split("|");
+    if (!salt || !hash) return false;
+    const digest = createHmac("sha1", Buffer.from(salt, "base64")).update(name).digest("base64");
+    return digest === hash;
+  }
+
+  let matched = false;
+  for (const pattern of field.split(",")) {
+    const negated = pattern.startsWith("!");
+    const glob = negated ? pattern.slice(1) : pattern;
+    const regex = new RegExp(
+      `^${glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`,
+      "i"
+    );
+
+    if (regex.test(name)) {
+      // A matching negated pattern excludes the line
+      if (negated) return false;
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Look up the keys recorded for a host in a known_hosts file
+ */
+export function findKnownHostKeys(path: string, host: string, port: number): KnownHostKeys {
+  const result: KnownHostKeys = { keys: [], revoked: [] };
+
+  if (!existsSync(path)) {
+    return result;
+  }
+
+  const name = knownHostName(host, port);
+
+  for (const rawLine of readFileSync(path, "utf-8").split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const fields = line.split(/\s+/);
+    const marker = fields[0]?.startsWith("@") ? fields.shift() : undefined;
+    const [hosts, , keyData] = fields;
+
+    // Certificate authorities are not supported
+    if (!hosts || !keyData || marker === "@cert-authority") continue;
+    if (!matchesHostField(hosts, name)) continue;
+
+    const hostKey = parseHostKey(Buffer.from(keyData, "base64"));
+    if (marker === "@revoked") {
+      result.revoked.push(hostKey);
+    } else {
+      result.keys.push(hostKey);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Append a host key to a known_hosts file (creates the file and directory)
+ */
+export function addKnownHost(path: string, host: string, port: number, hostKey: HostKey): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const existing = existsSync(path) ? readFileSync(path, "utf-8") : "";
+  const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+  const entry = `${knownHostName(host, port)} ${hostKey.type} ${hostKey.key.toString("base64")}`;
+
+  appendFileSync(path, `${separator}${entry}\n`, { mode: 0o600 });
+}
+
+/**
+ * Remove every (non-marker) entry for a host from a known_hosts file
+ * @returns Number of removed lines
+ */
+export function removeKnownHost(path: string, host: string, port: number): number {
+  if (!existsSync(path)) {
+    return 0;
+  }
+
+  const name = knownHostName(host, port);
+  let removed = 0;
+
+  const lines = readFileSync(path, "utf-8")
+    .split("\n")
+    .filter((line) => {
+      const hosts = line.trim().split(/\s+/)[0];
+      if (!hosts || hosts.startsWith("#") || hosts.startsWith("@")) return true;
+      if (matchesHostField(hosts, name)) {
+        removed++;
+        return false;
+      }
+      return true;
+    });
+
+  replaceFileSync(path, lines.join("\n"));
+  return removed;
+}
+
+/**
+ * Rewrite a file through a temp file next to it, keeping its mode
+ * A crash never leaves known_hosts half written; a symlinked file keeps its link.
+ */
+function replaceFileSync(path: string, content: string): void {
+  const target = realpathSync(path);
+  const mode = statSync(target).mode & 0o777;
+  const tempPath = `${target}.pxnship-${process.pid}.tmp`;
+
+  try {
+    writeFileSync(tempPath, content, { mode });
+    chmodSync(tempPath, mode); // umask may have cleared bits
+    renameSync(tempPath, target);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Host key algorithms that can negotiate each key type found in known_hosts
+const HOST_KEY_ALGORITHMS: Record<string, string[]> = {
+  "ssh-ed25519": ["ssh-ed25519"],
+  "ecdsa-sha2-nistp256": ["ecdsa-sha2-nistp256"],
+  "ecdsa-sha2-nistp384": ["ecdsa-sha2-nistp384"],
+  "ecdsa-sha2-nistp521": ["ecdsa-sha2-nistp521"],
+  "ssh-rsa": ["rsa-sha2-512", "rsa-sha2-256", "ssh-rsa"],
+  "ssh-dss": ["ssh-dss"],
+};
+
+/**
+ * Host key algorithms to offer a known server: only the types already in known_hosts,
+ * so a man-in-the-middle cannot get a key of a new type trusted
+ * @returns undefined to offer all (unknown host, pinned fingerprint or checking disabled)
+ */
+export function getHostKeyAlgorithms(sshConfig: SSHConfig): string[] | undefined {
+  if (sshConfig.strictHostKeyChecking === "no" || getPinnedFingerprint(sshConfig)) {
+    return undefined;
+  }
+
+  const known = findKnownHostKeys(getKnownHostsPath(sshConfig), sshConfig.host, sshConfig.port);
+  const algorithms = [...new Set(known.keys.flatMap((k) => HOST_KEY_ALGORITHMS[k.type] ?? []))];
+  return algorithms.length > 0 ? algorithms : undefined;
+}
+
+/**
+ * Decide whether to trust the key a server presented
+ */
+export function verifyHostKey(sshConfig: SSHConfig, key: Buffer): HostKeyCheck {
+  const { host, port, strictHostKeyChecking } = sshConfig;
+
+  if (strictHostKeyChecking === "no") {
+    return { trusted: true };
+  }
+
+  const hostKey = parseHostKey(key);
+  const pinned = getPinnedFingerprint(sshConfig);
+
+  if (pinned) {
+    return fingerprintsMatch(pinned, hostKey.fingerprint)
+      ? { trusted: true }
+      : {
+          trusted: false,
+          error: `Host key for ${host} does not match ssh.hostFingerprint (server sent ${hostKey.fingerprint})`,
+        };
+  }
+
+  const knownHostsPath = getKnownHostsPath(sshConfig);
+  const known = findKnownHostKeys(knownHostsPath, host, port);
+
+  if (known.revoked.some((k) => k.key.equals(key))) {
+    return { trusted: false, error: `Host key for ${host} is marked as revoked in ${knownHostsPath}` };
+  }
+
+  if (known.keys.some((k) => k.key.equals(key))) {
+    return { trusted: true };
+  }
+
+  // Any other key for a known host counts as changed, whatever its type: only
+  // known key types are negotiated (getHostKeyAlgorithms), like OpenSSH does
+  if (known.keys.length > 0) {
+    return {
+      trusted: false,
+      error:
+        `Host key for ${host} has changed (server sent ${hostKey.fingerprint}). ` +
+        `This could be a man-in-the-middle attack. If the server was reinstalled, run \`pxnship trust --force\`.`,
+    };
+  }
+
+  if (strictHostKeyChecking === "yes") {
+    return {
+      trusted: false,
+      error: `Host key for ${host} is not known (${hostKey.fingerprint}). Run \`pxnship trust\` to add it to ${knownHostsPath}.`,
+    };
+  }
+
+  // accept-new: trust on first use
+  try {
+    addKnownHost(knownHostsPath, host, port, hostKey);
+    return { trusted: true, added: true };
+  } catch {
+    // known_hosts is not writable, the key is still accepted for this connection
+    return { trusted: true };
+  }
+}
+
+/**
+ * Read the server's host key without authenticating
+ * The handshake is aborted once the key is received, so no credentials are sent.
+ * @param sock Tunnel to the host when it is behind a jump host
+ */
+export function fetchHostKey(sshConfig: SSHConfig, sock?: ClientChannel): Promise<HostKey> {
+  return new Promise((resolve, reject) => {
+    const client = new ssh2.Client();
+    let hostKey: HostKey | null = null;
+
+    client.on("error", (err) => {
+      if (hostKey) {
+        resolve(hostKey);
+      } else {
+        reject(new Error(`Failed to read host key from ${sshConfig.host}: ${err.message}`));
+      }
+    });
+
+    client.on("close", () => {
+      if (hostKey) resolve(hostKey);
+    });
+
+    client.connect({
+      host: sshConfig.host,
+      port: sshConfig.port,
+      sock,
+      username: sshConfig.user,
+      readyTimeout: 20000,
+      hostVerifier: (key: Buffer) => {
+        hostKey = parseHostKey(key);
+        return false;
+      },
+    });
+  });
+}
+
+/**
+ * OpenSSH host key settings for rsync's ssh, matching the ssh2 host key checks
+ * A pinned fingerprint is checked first and written to a temporary known_hosts
+ * file, so ssh only connects if the server presents that exact key.
+ * @param sock Tunnel used to read a pinned host's key behind a jump host
+ */
+export async function getSSHHostKeySettings(
+  sshConfig: SSHConfig,
+  sock?: ClientChannel
+): Promise<{ settings: Record<string, string>; cleanup: () => void }> {
+  const { strictHostKeyChecking } = sshConfig;
+
+  if (strictHostKeyChecking === "no") {
+    return {
+      settings: { StrictHostKeyChecking: "no", UserKnownHostsFile: "/dev/null" },
+      cleanup: () => undefined,
+    };
+  }
+
+  const pinned = getPinnedFingerprint(sshConfig);
+
+  if (pinned) {
+    const hostKey = await fetchHostKey(sshConfig, sock);
+    if (!fingerprintsMatch(pinned, hostKey.fingerprint)) {
+      throw new Error(
+        `Host key for ${sshConfig.host} does not match ssh.hostFingerprint (server sent ${hostKey.fingerprint})`
+      );
+    }
+
+    const dir = mkdtempSync(join(tmpdir(), "pxnship-"));
+    const knownHostsFile = join(dir, "known_hosts");
+    addKnownHost(knownHostsFile, sshConfig.host, sshConfig.port, hostKey);
+
+    return {
+      settings: { StrictHostKeyChecking: "yes", UserKnownHostsFile: `"${knownHostsFile}"` },
+      cleanup: () => rmSync(dir, { recursive: true, force: true }),
+    };
+  }
+
+  return {
+    settings: {
+      StrictHostKeyChecking: strictHostKeyChecking,
+      UserKnownHostsFile: `"${getKnownHostsPath(sshConfig)}"`,
+    },
+    cleanup: () => undefined,
+  };
+}
@@ -0,0 +1,243 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import { posix } from "node:path";
+import type { SFTPWrapper } from "ssh2";
+import { writeRemoteFile } from "./sftp.js";
+import { connectTarget, ensureRemoteDir, type SSHTarget } from "./ssh.js";
+import { getDeployUser, type GitInfo } from "./git.js";
+import { getStatePath } from "./state.js";
+
+const LOCK_FILE = "deploy.lock";
+
+// Time for a concurrent takeover to land before we check who holds the lock
+const SETTLE_DELAY = 500;
+
+export interface DeployLock {
+  /** Unique id, only the holder releases its own lock */
+  id: string;
+  user: string;
+  hostname: string;
+  pid: number;
+  createdAt: string;
+  /** Last refresh by the holder; staleness counts from here */
+  refreshedAt?: string;
+  sha: string | null;
+  branch: string | null;
+  target?: string;
+}
+
+export interface LockResult {
+  acquired: boolean;
+  /** Our lock when acquired, otherwise the lock held by someone else */
+  lock?: DeployLock;
+  /** Stale (or forcibly removed) lock that was replaced */
+  replaced?: DeployLock;
+}
+
+export interface AcquireLockOptions {
+  /** Locks older than this are considered stale (ms) */
+  ttl: number;
+  /** Replace a lock held by someone else */
+  force?: boolean;
+}
+
+/**
+ * Create lock info for this process
+ */
+export function createLockInfo(git: GitInfo, target?: string): DeployLock {
+  return {
+    id: randomUUID(),
+    user: getDeployUser(),
+    hostname: hostname(),
+    pid: process.pid,
+    createdAt: new Date().toISOString(),
+    sha: git.sha,
+    branch: git.branch,
+    target,
+  };
+}
+
+/**
+ * Human-readable lock owner, e.g. "alice@laptop since 2025-01-01T12:00:00Z (abc1234 on main)"
+ */
+export function describeLock(lock: DeployLock): string {
+  const commit = lock.sha
+    ? ` (${lock.sha.slice(0, 7)}${lock.branch ? ` on ${lock.branch}` : ""})`
+    : "";
+  return `${lock.user}@${lock.hostname} since ${lock.createdAt}${commit}`;
+}
+
+/**
+ * Check whether a lock has outlived its TTL since it was taken or last refreshed
+ */
+export function isLockStale(lock: DeployLock, ttl: number): boolean {
+  const touchedAt = Date.parse(lock.refreshedAt ?? lock.createdAt);
+  return Number.isNaN(touchedAt) || Date.now() - touchedAt > ttl;
+}
+
+function readLockFile(sftp: SFTPWrapper, path: string): Promise<DeployLock | null> {
+  return new Promise((resolve) => {
+    sftp.readFile(path, (err, data) => {
+      if (err) {
+        resolve(null);
+        return;
+      }
+      try {
+        resolve(JSON.parse(data.toString("utf-8")) as DeployLock);
+      } catch {
+        // Unreadable lock file, treat as stale
+        resolve({
+          id: "",
+          user: "unknown",
+          hostname: "unknown",
+          pid: 0,
+          createdAt: "",
+          sha: null,
+          branch: null,
+        });
+      }
+    });
+  });
+}
+
+/**
+ * Create the lock file exclusively (fails if it already exists)
+ */
+function createLockFile(sftp: SFTPWrapper, path: string, lock: DeployLock): Promise<boolean> {
+  return new Promise((resolve) => {
+    sftp.writeFile(path, JSON.stringify(lock, null, 2), { flag: "wx", mode: 0o644 }, (err) => {
+      resolve(!err);
+    });
+  });
+}
+
+/**
+ * Write our lock over the existing one in a single rename, then read it back
+ * Two deploys replacing the same lock both rename; only the last one finds its id.
+ * @returns Whether the lock file holds our lock afterwards
+ */
+async function replaceLockFile(
+  sftp: SFTPWrapper,
+  path: string,
+  lock: DeployLock
+): Promise<boolean> {
+  await writeRemoteFile(sftp, path, JSON.stringify(lock, null, 2), 0o644);
+  await new Promise((resolve) => setTimeout(resolve, SETTLE_DELAY));
+  return (await readLockFile(sftp, path))?.id === lock.id;
+}
+
+function removeLockFile(sftp: SFTPWrapper, path: string): Promise<void> {
+  return new Promise((resolve) => {
+    sftp.unlink(path, () => resolve());
+  });
+}
+
+/**
+ * Take the deploy lock on the server
+ * The lock file is created with O_EXCL over SFTP, so only one deploy can hold it
+ */
+export async function acquireLock(
+  ssh: SSHTarget,
+  remotePath: string,
+  lock: DeployLock,
+  options: AcquireLockOptions
+): Promise<LockResult> {
+  const conn = await connectTarget(ssh);
+
+  try {
+    const sftp = await conn.sftp();
+    const lockPath = getStatePath(remotePath, LOCK_FILE);
+    await ensureRemoteDir(sftp, posix.dirname(lockPath));
+
+    if (await createLockFile(sftp, lockPath, lock)) {
+      return { acquired: true, lock };
+    }
+
+    const existing = await readLockFile(sftp, lockPath);
+
+    if (existing && !options.force && !isLockStale(existing, options.ttl)) {
+      return { acquired: false, lock: existing };
+    }
+
+    // Stale or forced: replace the lock atomically and check that ours survived
+    if (await replaceLockFile(sftp, lockPath, lock)) {
+      return { acquired: true, lock, replaced: existing ?? undefined };
+    }
+
+    // Someone else won the race
+    const winner = await readLockFile(sftp, lockPath);
+    return { acquired: false, lock: winner ?? undefined };
+  } finally {
+    conn.close();
+  }
+}
+
+/**
+ * Renew the TTL of our lock, so a long deploy is not taken over as stale
+ * The lock is read back after writing, in case another deploy took it over meanwhile.
+ * @returns false if the lock is gone or held by someone else now
+ */
+export async function refreshLock(
+  ssh: SSHTarget,
+  remotePath: string,
+  lock: DeployLock
+): Promise<boolean> {
+  const conn = await connectTarget(ssh);
+
+  try {
+    const sftp = await conn.sftp();
+    const lockPath = getStatePath(remotePath, LOCK_FILE);
+    const existing = await readLockFile(sftp, lockPath);
+
+    if (!existing || existing.id !== lock.id) {
+      return false;
+    }
+
+    const refreshed: DeployLock = { ...existing, refreshedAt: new Date().toISOString() };
+    return await replaceLockFile(sftp, lockPath, refreshed);
+  } finally {
+    conn.close();
+  }
+}
+
+/**
+ * Read the current lock on the server
+ */
+export async function readLock(ssh: SSHTarget, remotePath: string): Promise<DeployLock | null> {
+  const conn = await connectTarget(ssh);
+
+  try {
+    const sftp = await conn.sftp();
+    return await readLockFile(sftp, getStatePath(remotePath, LOCK_FILE));
+  } finally {
+    conn.close();
+  }
+}
+
+/**
+ * Remove the deploy lock
+ * @param id Only remove the lock if it is ours (omit to remove any lock)
+ * @returns The removed lock, or null if there was nothing to remove
+ */
+export async function releaseLock(
+  ssh: SSHTarget,
+  remotePath: string,
+  id?: string
+): Promise<DeployLock | null> {
+  const conn = await connectTarget(ssh);
+
+  try {
+    const sftp = await conn.sftp();
+    const lockPath = getStatePath(remotePath, LOCK_FILE);
+    const existing = await readLockFile(sftp, lockPath);
+
+    if (!existing || (id && existing.id !== id)) {
+      return null;
+    }
+
+    await removeLockFile(sftp, lockPath);
+    return existing;
+  } finally {
+    conn.close();
+  }
+}
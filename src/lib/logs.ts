@@ -0,0 +1,192 @@
+import { detectPlatform, type RemotePlatform } from "./platform.js";
+import { connectTarget, describeExecFailure, type ExecResult, type SSHTarget } from "./ssh.js";
+
+export interface LogLine {
+  /** PM2 log the line came from */
+  stream: "out" | "err";
+  line: string;
+  /** Timestamp parsed from the start of the line, if it has one */
+  timestamp?: Date;
+}
+
+export interface LogOptions {
+  /** Number of past lines to show (pm2 logs --lines) */
+  lines?: number;
+  /** Only stdout or stderr logs */
+  stream?: "out" | "err";
+  /** Only lines logged after this date (requires timestamped logs, e.g. pm2 --time) */
+  since?: Date;
+  /** Keep streaming new lines until aborted */
+  follow?: boolean;
+  /** Stops the stream and the remote `pm2 logs` process */
+  signal?: AbortSignal;
+}
+
+/**
+ * Parse a duration ("30s", "10m", "2h", "1d") or a date string into a date
+ */
+export function parseSince(value: string, now: Date = new Date()): Date {
+  const match = value.trim().match(/^(\d+)\s*(s|m|h|d)$/);
+
+  if (match?.[1] && match[2]) {
+    const units = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 } as const;
+    const amount = Number.parseInt(match[1], 10) * units[match[2] as keyof typeof units];
+    return new Date(now.getTime() - amount);
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid --since value "${value}". Use a duration (10m, 2h, 1d) or a date.`);
+  }
+  return date;
+}
+
+/**
+ * Read a leading timestamp, e.g. "2025-01-01T12:00:00" or "2025-01-01 12:00:00 +03:00: message"
+ */
+function parseLineTimestamp(line: string): Date | undefined {
+  const match = line.match(/^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:\s?(?:Z|[+-]\d{2}:?\d{2}))?)/);
+  if (!match?.[1]) return undefined;
+
+  const date = new Date(match[1].replace(" ", "T").replace(/\s/, ""));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Build the remote `pm2 logs` command
+ */
+function buildLogsCommand(platform: RemotePlatform, appName: string, options: LogOptions): string {
+  const args = ["pm2", "logs", platform.quote(appName), "--raw", "--lines", String(options.lines ?? 15)];
+
+  if (options.stream === "out") args.push("--out");
+  if (options.stream === "err") args.push("--err");
+  if (!options.follow) args.push("--nostream");
+
+  return args.join(" ");
+}
+
+/**
+ * Error for a `pm2 logs` command that failed (null if it succeeded or was stopped by us)
+ */
+function getLogsError(result: ExecResult): Error | null {
+  if (result.aborted || result.code === 0) {
+    return null;
+  }
+  if (result.code === 127) {
+    return new Error("pm2 not found on the server");
+  }
+  return new Error(`pm2 logs ${describeExecFailure(result)}`);
+}
+
+/**
+ * Stream PM2 logs from the server
+ * Lines are yielded as they arrive. In follow mode the iterator only ends when
+ * `signal` is aborted or the consumer stops iterating.
+ */
+export async function* streamLogs(
+  ssh: SSHTarget,
+  appName: string,
+  options: LogOptions = {}
+): AsyncGenerator<LogLine> {
+  if (options.signal?.aborted) return;
+
+  const conn = await connectTarget(ssh);
+  let platform: RemotePlatform;
+  try {
+    platform = await detectPlatform(conn);
+  } catch (error) {
+    conn.close();
+    throw error;
+  }
+
+  const queue: LogLine[] = [];
+  let closed = false;
+  let failure: unknown = null;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  // Split chunks into lines per stream (pm2 --raw writes error logs to stderr)
+  const createLineReader = (stream: LogLine["stream"]) => {
+    let buffer = "";
+    return {
+      push: (data: string) => {
+        buffer += data;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          queue.push({ stream, line, timestamp: parseLineTimestamp(line) });
+        }
+        notify();
+      },
+      flush: () => {
+        if (buffer) {
+          queue.push({ stream, line: buffer, timestamp: parseLineTimestamp(buffer) });
+          buffer = "";
+        }
+      },
+    };
+  };
+
+  const out = createLineReader("out");
+  const err = createLineReader("err");
+
+  // Stops the remote pm2 process when the caller aborts or stops iterating
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  options.signal?.addEventListener("abort", stop, { once: true });
+
+  conn
+    .execStream(buildLogsCommand(platform, appName, options), {
+      onStdout: out.push,
+      onStderr: err.push,
+      signal: controller.signal,
+    })
+    .then(
+      (result) => {
+        out.flush();
+        err.flush();
+        failure = getLogsError(result);
+      },
+      (error: unknown) => {
+        failure = error;
+      }
+    )
+    .finally(() => {
+      closed = true;
+      notify();
+    });
+
+  // Lines without a timestamp (e.g. stack traces) belong to the previous line
+  let lastTimestamp: Date | undefined;
+
+  try {
+    while (true) {
+      const next = queue.shift();
+
+      if (next) {
+        lastTimestamp = next.timestamp ?? lastTimestamp;
+        if (options.since && (!lastTimestamp || lastTimestamp < options.since)) {
+          continue;
+        }
+
+        yield next;
+        continue;
+      }
+
+      if (failure) throw failure;
+      if (closed) break;
+
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  } finally {
+    options.signal?.removeEventListener("abort", stop);
+    stop();
+    conn.close();
+  }
+}
@@ -0,0 +1,222 @@
+import { existsSync, readdirSync, statSync } from "node:fs";
+import { join, posix } from "node:path";
+
+/**
+ * A compiled upload.include / exclude / protect pattern
+ *
+ * Same rules as rsync filters:
+ * - "name" matches the last path segment at any depth
+ * - a "/" inside the pattern (or "**") matches against the whole path
+ * - a leading "/" anchors the pattern to the upload root
+ * - a trailing "/" only matches directories, "dir/***" matches dir and everything in it
+ * - "*" and "?" stop at "/", "**" does not, "[a-z]" is a character class
+ * - "!pattern" re-includes paths an earlier pattern matched
+ */
+export interface PathPattern {
+  /** Pattern as written in the config */
+  source: string;
+  negated: boolean;
+  dirOnly: boolean;
+  /** Matched against the whole relative path instead of the last segment */
+  fullPath: boolean;
+  regex: RegExp;
+}
+
+export interface PathFilter {
+  patterns: PathPattern[];
+  /** The path itself matches (later patterns win) */
+  matches: (path: string, isDir: boolean) => boolean;
+  /** The path or one of its parent directories below `root` matches */
+  matchesWithin: (path: string, isDir: boolean, root?: string) => boolean;
+}
+
+const GLOB_CHARS = /[*?[]/;
+
+/**
+ * Check whether a pattern contains wildcards
+ */
+export function hasGlob(pattern: string): boolean {
+  return GLOB_CHARS.test(pattern.replace(/\\./g, ""));
+}
+
+/**
+ * Translate glob syntax to a regular expression body
+ */
+function globToRegex(glob: string): string {
+  let regex = "";
+
+  // "dir/***" = the directory itself and everything inside
+  const allContents = glob.endsWith("/***");
+  const body = allContents ? glob.slice(0, -4) : glob;
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i] as string;
+
+    if (char === "\\" && i + 1 < body.length) {
+      regex += (body[++i] as string).replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else if (char === "*") {
+      if (body[i + 1] === "*") {
+        regex += ".*";
+        while (body[i + 1] === "*") i++;
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else if (char === "[") {
+      const end = body.indexOf("]", i + 2);
+      if (end === -1) {
+        regex += "\\[";
+      } else {
+        const set = body.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        regex += `[${set}]`;
+        i = end;
+      }
+    } else {
+      regex += char.replace(/[.+^${}()|\]\\/]/g, "\\$&");
+    }
+  }
+
+  return allContents ? `${regex}(?:/.*)?` : regex;
+}
+
+/**
+ * Compile one pattern
+ */
+export function compilePattern(pattern: string): PathPattern {
+  let body = pattern.trim();
+
+  const negated = body.startsWith("!");
+  if (negated) body = body.slice(1);
+
+  const anchored = body.startsWith("/");
+  if (anchored) body = body.replace(/^\/+/, "");
+
+  const dirOnly = body.endsWith("/");
+  if (dirOnly) body = body.replace(/\/+$/, "");
+
+  const fullPath = anchored || body.includes("/") || body.includes("**");
+  const prefix = fullPath && !anchored ? "(?:^|/)" : "^";
+
+  return {
+    source: pattern,
+    negated,
+    dirOnly,
+    fullPath,
+    regex: new RegExp(`${prefix}${globToRegex(body)}$`),
+  };
+}
+
+/**
+ * Match a relative, "/" separated path against a single pattern (ignores negation)
+ */
+export function matchesPattern(pattern: PathPattern, path: string, isDir: boolean): boolean {
+  if (pattern.dirOnly && !isDir) {
+    return false;
+  }
+  const subject = pattern.fullPath ? path : posix.basename(path);
+  return pattern.regex.test(subject);
+}
+
+/**
+ * Compile a pattern list into a filter
+ */
+export function createPathFilter(patterns: string[]): PathFilter {
+  const compiled = patterns.filter((p) => p.trim()).map(compilePattern);
+
+  const matches = (path: string, isDir: boolean): boolean => {
+    for (let i = compiled.length - 1; i >= 0; i--) {
+      const pattern = compiled[i] as PathPattern;
+      if (matchesPattern(pattern, path, isDir)) {
+        return !pattern.negated;
+      }
+    }
+    return false;
+  };
+
+  const matchesWithin = (path: string, isDir: boolean, root = ""): boolean => {
+    const segments = path.split("/");
+    const rootDepth = root ? root.split("/").length : 0;
+
+    // Parent directories first: a matched directory is never traversed
+    for (let i = Math.max(rootDepth, 1); i < segments.length; i++) {
+      if (matches(segments.slice(0, i).join("/"), true)) return true;
+    }
+    return matches(path, isDir);
+  };
+
+  return { patterns: compiled, matches, matchesWithin };
+}
+
+/**
+ * Normalize a config path to the relative "/" separated form patterns match against
+ */
+export function toPatternPath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+/**
+ * Resolve upload.include to existing paths (relative, "/" separated)
+ * Plain entries are used as they are, glob entries are matched below their
+ * static prefix (e.g. "public/**\/*.png" is searched in public/).
+ */
+export function expandIncludePatterns(
+  include: string[],
+  cwd: string,
+  exclude: PathFilter = createPathFilter([])
+): string[] {
+  const paths = new Set<string>();
+
+  for (const entry of include) {
+    const path = toPatternPath(entry);
+
+    if (!hasGlob(path)) {
+      if (existsSync(join(cwd, path))) paths.add(path);
+      continue;
+    }
+
+    const segments = path.split("/");
+    const firstGlob = segments.findIndex((segment) => hasGlob(segment));
+    const base = segments.slice(0, firstGlob).join("/");
+    const pattern = compilePattern(`/${path}${entry.endsWith("/") ? "/" : ""}`);
+
+    const walk = (dir: string): void => {
+      const absolute = join(cwd, dir);
+      if (!existsSync(absolute)) return;
+
+      for (const dirent of readdirSync(absolute, { withFileTypes: true })) {
+        const child = dir ? `${dir}/${dirent.name}` : dirent.name;
+        const isDir = statSync(join(cwd, child)).isDirectory();
+
+        if (exclude.matches(child, isDir)) continue;
+
+        if (matchesPattern(pattern, child, isDir)) {
+          paths.add(child);
+        } else if (isDir) {
+          walk(child);
+        }
+      }
+    };
+
+    walk(base);
+  }
+
+  return [...paths];
+}
+
+/**
+ * rsync filter rules that select the same paths as a pattern list
+ * rsync stops at the first matching rule while later patterns win here, so the
+ * order is reversed. `protect` rules only guard files on the server from --delete.
+ */
+export function toRsyncFilterRules(patterns: string[], kind: "exclude" | "protect"): string[] {
+  return patterns
+    .filter((p) => p.trim())
+    .map((pattern) => {
+      const { negated } = compilePattern(pattern);
+      const body = pattern.trim().replace(/^!/, "");
+      const rule = kind === "protect" ? (negated ? "R" : "P") : negated ? "+" : "-";
+      return `${rule} ${body}`;
+    })
+    .reverse();
+}
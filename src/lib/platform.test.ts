@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getRemotePlatform } from "./platform.js";
+
+describe("cmd platform", () => {
+  const cmd = getRemotePlatform("cmd");
+
+  it("keeps commands joined after copy reachable", () => {
+    const command = cmd.and(cmd.copy("/mnt/c/app/public", "/mnt/c/app/out"), "echo next");
+
+    assert.equal(
+      command,
+      "(xcopy C:\\app\\public C:\\app\\out /E /I /Y /Q & " +
+        "if errorlevel 2 (cmd /c exit 1) else (cmd /c exit 0)) && echo next"
+    );
+    // A bare `exit` would close the shell before `echo next`
+    assert.doesNotMatch(command, /\(exit \d\)/);
+  });
+});
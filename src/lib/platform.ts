@@ -0,0 +1,202 @@
+import { posix, win32 } from "node:path";
+import type { SSHConfig } from "../config/schema.js";
+import { assertEnvName, escapeCmd, quoteCmd, quotePosix, quotePowerShell } from "./quote.js";
+import type { SSHSession } from "./ssh.js";
+
+/**
+ * Shell that runs remote commands: POSIX sh (Linux, macOS, WSL), or cmd.exe /
+ * PowerShell on Windows OpenSSH (depends on the server's DefaultShell)
+ */
+export type RemoteShell = "posix" | "cmd" | "powershell";
+
+/**
+ * Paths and command fragments for one remote shell
+ * Paths may be given in POSIX form; WSL mounts ("/mnt/c/app") become drive paths on Windows.
+ * Command builders return a single command line with their arguments quoted.
+ */
+export interface RemotePlatform {
+  shell: RemoteShell;
+  isWindows: boolean;
+  /** Path in the target's notation */
+  path: (path: string) => string;
+  /** Join path segments with the target's separator */
+  join: (...parts: string[]) => string;
+  /** `file` relative to `dir`, unless it is absolute already */
+  resolve: (dir: string, file: string) => string;
+  /** Quote a value as a single shell argument */
+  quote: (value: string) => string;
+  /** Run commands in order, stopping at the first failure */
+  and: (...commands: string[]) => string;
+  cd: (dir: string) => string;
+  /** Create a directory and its parents */
+  mkdir: (dir: string) => string;
+  /** Copy the contents of a directory into another (created if missing) */
+  copy: (from: string, to: string) => string;
+  /** Point `link` at the directory `target` (a junction on Windows), replacing an existing link */
+  symlink: (target: string, link: string) => string;
+  /** Prefix that sets environment variables for the command after it */
+  envPrefix: (env: Record<string, string> | undefined) => string;
+  /** Command that prints EXISTS if the file exists */
+  fileExists: (path: string) => string;
+}
+
+// Detected once per server, shared by every step of a deploy
+const detected = new WeakMap<SSHConfig, Promise<RemotePlatform>>();
+
+/**
+ * Windows form of a remote path: WSL mounts ("/mnt/c/app") become drive paths ("C:\app")
+ */
+export function toWindowsPath(path: string): string {
+  return path
+    .replace(/^\/mnt\/([a-z])(?=\/|$)/i, (_, drive: string) => `${drive.toUpperCase()}:`)
+    .replace(/\//g, "\\");
+}
+
+/**
+ * SFTP form of a remote path: forward slashes, drive paths as "/C:/app"
+ * (how Windows OpenSSH's SFTP server names them)
+ */
+export function toSftpPath(path: string): string {
+  const slashed = path.replace(/\\/g, "/");
+  return /^[a-z]:/i.test(slashed) ? `/${slashed}` : slashed;
+}
+
+function createPosixPlatform(): RemotePlatform {
+  const quote = quotePosix;
+
+  return {
+    shell: "posix",
+    isWindows: false,
+    path: (path) => path,
+    join: (...parts) => posix.join(...parts),
+    resolve: (dir, file) => (file.startsWith("/") ? file : posix.join(dir, file)),
+    quote,
+    and: (...commands) => commands.join(" && "),
+    cd: (dir) => `cd ${quote(dir)}`,
+    mkdir: (dir) => `mkdir -p ${quote(dir)}`,
+    copy: (from, to) => `mkdir -p ${quote(to)} && cp -R ${quote(`${from}/.`)} ${quote(`${to}/`)}`,
+    symlink: (target, link) => `ln -sfn ${quote(target)} ${quote(link)}`,
+    envPrefix: (env) =>
+      env && Object.keys(env).length
+        ? `${Object.entries(env).map(([k, v]) => `${assertEnvName(k)}=${quote(v)}`).join(" ")} `
+        : "",
+    fileExists: (path) => `test -f ${quote(path)} && echo EXISTS`,
+  };
+}
+
+/**
+ * cmd.exe and PowerShell share the Windows path handling
+ */
+function createWindowsPaths(): Pick<RemotePlatform, "path" | "join" | "resolve"> {
+  const path = (value: string) => toWindowsPath(value);
+  const join = (...parts: string[]) => win32.join(...parts.map(toWindowsPath));
+  const isAbsolute = (value: string) => /^(?:[a-z]:|\\\\|\/)/i.test(value);
+
+  return {
+    path,
+    join,
+    resolve: (dir, file) => (isAbsolute(file) ? path(file) : join(dir, file)),
+  };
+}
+
+function createCmdPlatform(): RemotePlatform {
+  const paths = createWindowsPaths();
+  const quote = quoteCmd;
+  const q = (path: string) => quote(paths.path(path));
+
+  return {
+    shell: "cmd",
+    isWindows: true,
+    ...paths,
+    quote,
+    and: (...commands) => commands.join(" && "),
+    cd: (dir) => `cd /d ${q(dir)}`,
+    mkdir: (dir) => `if not exist ${q(dir)} mkdir ${q(dir)}`,
+    // xcopy exits with 1 when there was nothing to copy. `cmd /c exit` sets the error
+    // level without closing the shell, so commands joined after it still run
+    copy: (from, to) =>
+      `(xcopy ${q(from)} ${q(to)} /E /I /Y /Q & if errorlevel 2 (cmd /c exit 1) else (cmd /c exit 0))`,
+    symlink: (target, link) =>
+      `(if exist ${q(link)} rmdir ${q(link)}) & mklink /J ${q(link)} ${q(target)}`,
+    // The parentheses keep the space before && out of the value
+    envPrefix: (env) =>
+      env && Object.keys(env).length
+        ? Object.entries(env)
+            .map(([k, v]) => `(set ${assertEnvName(k)}=${escapeCmd(v)})&& `)
+            .join("")
+        : "",
+    fileExists: (path) => `if exist ${q(path)} echo EXISTS`,
+  };
+}
+
+function createPowerShellPlatform(): RemotePlatform {
+  const paths = createWindowsPaths();
+  const quote = quotePowerShell;
+  const q = (path: string) => quote(paths.path(path));
+
+  return {
+    shell: "powershell",
+    isWindows: true,
+    ...paths,
+    quote,
+    // Windows PowerShell 5 has no &&
+    and: (...commands) => commands.join("; if (-not $?) { exit 1 }; "),
+    cd: (dir) => `Set-Location -LiteralPath ${q(dir)}`,
+    mkdir: (dir) => `New-Item -ItemType Directory -Force -Path ${q(dir)} | Out-Null`,
+    copy: (from, to) =>
+      `New-Item -ItemType Directory -Force -Path ${q(to)} | Out-Null; ` +
+      `Copy-Item -Path ${q(paths.join(from, "*"))} -Destination ${q(to)} -Recurse -Force -ErrorAction Stop`,
+    symlink: (target, link) =>
+      `New-Item -ItemType Junction -Path ${q(link)} -Target ${q(target)} -Force | Out-Null`,
+    envPrefix: (env) =>
+      env && Object.keys(env).length
+        ? `${Object.entries(env).map(([k, v]) => `$env:${assertEnvName(k)} = ${quote(v)}`).join("; ")}; `
+        : "",
+    fileExists: (path) => `if (Test-Path -PathType Leaf -LiteralPath ${q(path)}) { 'EXISTS' }`,
+  };
+}
+
+/**
+ * Platform for a known shell
+ */
+export function getRemotePlatform(shell: RemoteShell): RemotePlatform {
+  switch (shell) {
+    case "cmd":
+      return createCmdPlatform();
+    case "powershell":
+      return createPowerShellPlatform();
+    default:
+      return createPosixPlatform();
+  }
+}
+
+/**
+ * Probe the remote shell
+ * `uname` only exists on POSIX systems. On Windows, cmd expands %OS% to "Windows_NT"
+ * while PowerShell prints it as is.
+ */
+async function probeShell(conn: SSHSession): Promise<RemoteShell> {
+  const uname = await conn.exec("uname -s");
+  if (uname.code === 0 && uname.stdout.trim()) {
+    return "posix";
+  }
+
+  const os = await conn.exec("echo %OS%");
+  return os.stdout.includes("Windows_NT") ? "cmd" : "powershell";
+}
+
+/**
+ * Detect the platform of a server (once per server config)
+ */
+export function detectPlatform(conn: SSHSession): Promise<RemotePlatform> {
+  let platform = detected.get(conn.config);
+
+  if (!platform) {
+    platform = probeShell(conn).then(getRemotePlatform);
+    // Probe again on the next call if the commands could not run
+    platform.catch(() => detected.delete(conn.config));
+    detected.set(conn.config, platform);
+  }
+
+  return platform;
+}
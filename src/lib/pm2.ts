@@ -1,89 +1,304 @@
-import { createSSHConnection, type SSHConnection } from "./ssh.js";
-import type { SSHConfig, PM2Config } from "../config/schema.js";
+import {
+  formatEcosystemFile,
+  GENERATED_ECOSYSTEM_FILE,
+  writeEcosystemFile,
+} from "./ecosystem.js";
+import { getEnvFile, writeEnvFile } from "./envfile.js";
+import { detectPlatform, type RemotePlatform } from "./platform.js";
+import {
+  connectTarget,
+  describeExecFailure,
+  type SSHSession,
+  type SSHTarget,
+} from "./ssh.js";
+import type { PM2Config } from "../config/schema.js";
+
+export interface PM2Result {
+  success: boolean;
+  status?: string;
+  error?: string;
+}
+
+export interface ReloadOptions {
+  /** Live output of the PM2 command */
+  onOutput?: (data: string) => void;
+  /** Cancel the PM2 command */
+  signal?: AbortSignal;
+}
+
+/**
+ * PM2 process details from a `pm2 jlist` entry
+ */
+export interface PM2ProcessInfo {
+  name: string;
+  pmId: number;
+  pid: number;
+  status: string;
+  /** Milliseconds since the process was (re)started, 0 when not running */
+  uptime: number;
+  restarts: number;
+  unstableRestarts: number;
+  /** CPU usage in percent */
+  cpu: number;
+  /** Memory usage in bytes */
+  memory: number;
+  execMode?: string;
+  nodeVersion?: string;
+  execPath?: string;
+  cwd?: string;
+}
+
+export interface PM2StatusResult extends PM2Result {
+  /** One entry per instance (cluster mode runs several) */
+  processes?: PM2ProcessInfo[];
+}
+
+/**
+ * Raw `pm2 jlist` entry (only the fields we read)
+ */
+interface PM2JlistEntry {
+  name: string;
+  pid?: number;
+  pm_id?: number;
+  monit?: { memory?: number; cpu?: number };
+  pm2_env: {
+    status: string;
+    pm_uptime?: number;
+    restart_time?: number;
+    unstable_restarts?: number;
+    exec_mode?: string;
+    node_version?: string;
+    pm_exec_path?: string;
+    pm_cwd?: string;
+  };
+}
+
+/**
+ * Convert a `pm2 jlist` entry to process info
+ */
+function toProcessInfo(entry: PM2JlistEntry): PM2ProcessInfo {
+  const env = entry.pm2_env;
+  const online = env.status === "online";
+
+  return {
+    name: entry.name,
+    pmId: entry.pm_id ?? 0,
+    pid: entry.pid ?? 0,
+    status: env.status,
+    uptime: online && env.pm_uptime ? Date.now() - env.pm_uptime : 0,
+    restarts: env.restart_time ?? 0,
+    unstableRestarts: env.unstable_restarts ?? 0,
+    cpu: entry.monit?.cpu ?? 0,
+    memory: entry.monit?.memory ?? 0,
+    execMode: env.exec_mode,
+    nodeVersion: env.node_version,
+    execPath: env.pm_exec_path,
+    cwd: env.pm_cwd,
+  };
+}
+
+/**
+ * Quoted path of a file in the app directory (kept if absolute)
+ * Paths are absolute so PM2 keeps them as given (e.g. through the `current` release symlink)
+ */
+function appPath(platform: RemotePlatform, dir: string, file: string): string {
+  return platform.quote(platform.resolve(dir, file));
+}
 
 /**
- * Escape shell value for safe command execution
- * Handles quotes, spaces, and special characters
+ * Ecosystem file to use for the pm2.ecosystem setting
+ *   true | "auto" = ecosystem.config.js if it exists in the app directory
+ *   false = none, start with standalone server.js
+ *   "generate" = ecosystem.config.cjs written from pm2 config, see deliverEcosystemFile()
+ *   "filename.js" = that file
  */
-function escapeShellValue(value: string): string {
-  if (/[\s&|<>^"'`$\\]/.test(value)) {
-    // Escape double quotes and wrap in quotes
-    return `"${value.replace(/"/g, '\\"')}"`;
+async function findEcosystemFile(
+  conn: SSHSession,
+  platform: RemotePlatform,
+  dir: string,
+  ecosystem: PM2Config["ecosystem"]
+): Promise<string | null> {
+  if (ecosystem === false) {
+    return null;
   }
-  return value;
+  if (ecosystem === "generate") {
+    return GENERATED_ECOSYSTEM_FILE;
+  }
+  if (typeof ecosystem === "string" && ecosystem !== "auto") {
+    return ecosystem;
+  }
+
+  const check = await conn.exec(platform.fileExists(platform.resolve(dir, "ecosystem.config.js")));
+  return check.stdout.includes("EXISTS") ? "ecosystem.config.js" : null;
+}
+
+/**
+ * Whether the ecosystem file is generated from pm2 config (not maintained by the user)
+ */
+function isGenerated(pm2Config: PM2Config): boolean {
+  return pm2Config.ecosystem === "generate";
+}
+
+/**
+ * Environment of the app: pm2.env, plus PORT unless the user's ecosystem file sets it
+ */
+function getAppEnv(pm2Config: PM2Config, ecosystemFile: string | null): Record<string, string> {
+  const { port, env = {} } = pm2Config;
+  const addPort = port && (!ecosystemFile || isGenerated(pm2Config));
+  return addPort ? { PORT: String(port), ...env } : env;
 }
 
 /**
- * Build environment variable prefix for shell commands
- * @param env Record of environment variables
- * @param isWindows Whether target is Windows (uses set command)
- * @returns Prefix string like "set VAR=val && " (Windows) or "VAR=val " (Linux)
+ * Upload the env file of pm2.envFile before a start or reload
+ * @returns Path of the env file in the target's notation (the same path is uploaded and
+ *   given to PM2), null if the env is passed on the command line instead
  */
-function buildEnvPrefix(env: Record<string, string> | undefined, isWindows: boolean): string {
-  if (!env || Object.keys(env).length === 0) {
-    return "";
+async function deliverEnvFile(
+  conn: SSHSession,
+  platform: RemotePlatform,
+  dir: string,
+  pm2Config: PM2Config,
+  ecosystemFile: string | null
+): Promise<string | null> {
+  const envFile = getEnvFile(pm2Config);
+  if (!envFile) {
+    return null;
   }
 
-  const entries = Object.entries(env);
+  const path = platform.resolve(dir, envFile);
+  // Without an app directory (reload by name) the file of the last deploy stays in use
+  if (dir) {
+    await writeEnvFile(conn, path, getAppEnv(pm2Config, ecosystemFile));
+  }
+
+  return path;
+}
 
-  if (isWindows) {
-    // Windows CMD format: set "VAR1=value1" && set "VAR2=value2" &&
-    // IMPORTANT: Quotes around VAR=value prevent trailing space from being included
-    return entries.map(([k, v]) => `set "${k}=${v.replace(/"/g, '')}"`).join(" && ") + " && ";
+/**
+ * Write the ecosystem file of `pm2.ecosystem: "generate"` into the app directory
+ * The env goes into the file, or node loads the env file (node_args) if there is one.
+ */
+async function deliverEcosystemFile(
+  conn: SSHSession,
+  platform: RemotePlatform,
+  dir: string,
+  pm2Config: PM2Config,
+  ecosystemFile: string | null,
+  envFile: string | null
+): Promise<void> {
+  if (!ecosystemFile || !isGenerated(pm2Config)) {
+    return;
   }
-  // Linux/Unix format: VAR1=value1 VAR2=value2
-  return entries.map(([k, v]) => `${k}=${escapeShellValue(v)}`).join(" ") + " ";
+
+  const env = envFile ? {} : getAppEnv(pm2Config, ecosystemFile);
+  await writeEcosystemFile(
+    conn,
+    platform,
+    dir,
+    formatEcosystemFile(platform, dir, pm2Config, env, envFile)
+  );
 }
 
-export interface PM2Result {
-  success: boolean;
-  status?: string;
-  error?: string;
+/**
+ * Command for the generated ecosystem file: starts the app, or reloads it if it runs
+ * In cluster mode `reload` restarts the instances one by one (zero downtime).
+ */
+function getStartOrReloadCommand(
+  platform: RemotePlatform,
+  dir: string,
+  pm2Config: PM2Config
+): string {
+  const action = pm2Config.reload ? "startOrReload" : "startOrRestart";
+  return platform.and(
+    platform.cd(dir),
+    `pm2 ${action} ${appPath(platform, dir, GENERATED_ECOSYSTEM_FILE)} --update-env`
+  );
+}
+
+/**
+ * Command that starts the app from the ecosystem file or the standalone server
+ * With an env file, node loads it (--env-file) and nothing is passed on the command line.
+ * The user's ecosystem file decides its own node_args, so it still gets the env prefix.
+ */
+function getStartCommand(
+  platform: RemotePlatform,
+  dir: string,
+  pm2Config: PM2Config,
+  ecosystemFile: string | null,
+  envFile: string | null
+): string {
+  const appName = platform.quote(pm2Config.appName);
+  const envPrefix =
+    envFile && !ecosystemFile ? "" : platform.envPrefix(getAppEnv(pm2Config, ecosystemFile));
+
+  if (ecosystemFile) {
+    return platform.and(
+      platform.cd(dir),
+      `${envPrefix}pm2 start ${appPath(platform, dir, ecosystemFile)} --only ${appName}`
+    );
+  }
+
+  const script = appPath(platform, dir, ".next/standalone/server.js");
+  // PM2 keeps node args in its dump, so `pm2 resurrect` loads the file again
+  const nodeArgs = envFile
+    ? ` --node-args=${platform.quote(`--env-file=${envFile}`)}`
+    : "";
+  // PM2 would record the resolved cwd, i.e. the release behind the `current` symlink, and
+  // fail to restart once that release is pruned. Keep the path as given instead.
+  const cwd = platform.quote(platform.path(dir));
+  return platform.and(
+    platform.cd(dir),
+    `${envPrefix}pm2 start ${script} --name ${appName} --cwd ${cwd}${nodeArgs}`
+  );
+}
+
+/**
+ * Command that reloads (or restarts) a running app
+ * With an ecosystem file the whole config is read again, so PORT, env etc. changes apply
+ */
+function getReloadCommand(
+  platform: RemotePlatform,
+  dir: string,
+  pm2Config: PM2Config,
+  ecosystemFile: string | null,
+  envFile: string | null
+): string {
+  const action = pm2Config.reload ? "reload" : "restart";
+  const appName = platform.quote(pm2Config.appName);
+  const envPrefix = envFile && !ecosystemFile ? "" : platform.envPrefix(pm2Config.env);
+
+  if (ecosystemFile) {
+    return platform.and(
+      platform.cd(dir),
+      `${envPrefix}pm2 ${action} ${appPath(platform, dir, ecosystemFile)} --update-env`
+    );
+  }
+  return `${envPrefix}pm2 ${action} ${appName} --update-env`;
 }
 
 /**
  * Reload PM2 app or start if not exists
- * Based on ecosystem setting:
- *   true | "auto" = auto-detect ecosystem.config.js
- *   false = don't use ecosystem, start with standalone server.js
- *   "filename.js" = use specified ecosystem file
+ * The remote OS is detected once, see findEcosystemFile() for the ecosystem setting.
  */
 export async function reloadApp(
-  sshConfig: SSHConfig,
+  ssh: SSHTarget,
   pm2Config: PM2Config,
-  remotePath?: string
+  remotePath?: string,
+  options: ReloadOptions = {}
 ): Promise<PM2Result> {
-  const { appName, ecosystem, reload, port, env } = pm2Config;
-  let conn: SSHConnection | null = null;
+  const { appName, ecosystem, timeout } = pm2Config;
+  let conn: SSHSession | null = null;
 
   try {
-    conn = await createSSHConnection(sshConfig);
-
-    // Convert WSL path to Windows path and detect Windows target
-    const isWindows = remotePath?.startsWith("/mnt/") ?? false;
-    const winPath = remotePath
-      ? remotePath.replace(/^\/mnt\/([a-z])\//, "$1:\\\\").replace(/\//g, "\\")
-      : "";
-
-    // Build environment variable prefix
-    const envPrefix = buildEnvPrefix(env, isWindows);
-
-    // Determine ecosystem file based on config
-    let ecosystemFile: string | null = null;
-
-    if (ecosystem === false) {
-      // Explicitly disabled - don't use ecosystem
-      ecosystemFile = null;
-    } else if (typeof ecosystem === "string" && ecosystem !== "auto") {
-      // Specific file provided
-      ecosystemFile = ecosystem;
-    } else if ((ecosystem === true || ecosystem === "auto") && remotePath) {
-      // Auto-detect: check if ecosystem.config.js exists
-      const checkEcosystem = await conn.exec(`if exist "${winPath}\\ecosystem.config.js" echo EXISTS`);
-      if (checkEcosystem.stdout.includes("EXISTS")) {
-        ecosystemFile = "ecosystem.config.js";
-      }
-    }
+    conn = await connectTarget(ssh);
+
+    const platform = await detectPlatform(conn);
+    const dir = remotePath ?? "";
+
+    // Without remotePath only a running app can be reloaded by name
+    const ecosystemFile = remotePath
+      ? await findEcosystemFile(conn, platform, dir, ecosystem)
+      : null;
 
     // Check if app exists in PM2
     const checkResult = await conn.exec(`pm2 jlist`);
@@ -98,45 +313,39 @@ export async function reloadApp(
       }
     }
 
-    let command: string;
+    if (!appExists && !remotePath) {
+      return {
+        success: false,
+        error: `App "${appName}" not found and no remotePath provided to start it`,
+      };
+    }
 
-    if (appExists) {
-      if (ecosystemFile && remotePath) {
-        // Ecosystem dosyası varsa, startOrRestart ile tüm config'i yeniden oku
-        // Bu sayede PORT, env değişkenleri vb. güncellemeler uygulanır
-        const action = reload ? "reload" : "restart";
-        command = `cd /d "${winPath}" && ${envPrefix}pm2 ${action} ${ecosystemFile} --update-env`;
-      } else {
-        // Ecosystem yoksa sadece app'i reload/restart et
-        const action = reload ? "reload" : "restart";
-        command = `${envPrefix}pm2 ${action} ${appName} --update-env`;
-      }
-    } else {
-      // App doesn't exist, start it
-      if (!remotePath) {
-        return {
-          success: false,
-          error: `App "${appName}" not found and no remotePath provided to start it`,
-        };
-      }
+    const envFile = await deliverEnvFile(conn, platform, dir, pm2Config, ecosystemFile);
+    await deliverEcosystemFile(conn, platform, dir, pm2Config, ecosystemFile, envFile);
 
-      if (ecosystemFile) {
-        // Use ecosystem file to start - env vars prepended
-        command = `cd /d "${winPath}" && ${envPrefix}pm2 start ${ecosystemFile} --only ${appName}`;
-      } else {
-        // Standalone mode: merge PORT into env if provided
-        const envWithPort = port ? { PORT: String(port), ...env } : env;
-        const standaloneEnvPrefix = buildEnvPrefix(envWithPort, isWindows);
-        command = `cd /d "${winPath}" && ${standaloneEnvPrefix}pm2 start .next\\standalone\\server.js --name ${appName}`;
-      }
+    let command: string;
+    if (ecosystemFile && isGenerated(pm2Config)) {
+      command = getStartOrReloadCommand(platform, dir, pm2Config);
+    } else if (appExists) {
+      command = getReloadCommand(platform, dir, pm2Config, ecosystemFile, envFile);
+    } else {
+      command = getStartCommand(platform, dir, pm2Config, ecosystemFile, envFile);
     }
 
-    const result = await conn.exec(command);
+    const result = await conn.execStream(command, {
+      onStdout: options.onOutput,
+      onStderr: options.onOutput,
+      signal: options.signal,
+      timeout,
+    });
 
     if (result.code !== 0) {
       return {
         success: false,
-        error: result.stderr || result.stdout || `PM2 command failed with code ${result.code}`,
+        error:
+          result.code === null
+            ? `PM2 command ${describeExecFailure(result, timeout)}`
+            : describeExecFailure(result),
       };
     }
 
@@ -147,7 +356,7 @@ export async function reloadApp(
       success: true,
       status: appExists
         ? "PM2 reload completed"
-        : `PM2 app started${ecosystemFile ? " (using ecosystem.config.js)" : ""}`,
+        : `PM2 app started${ecosystemFile ? ` (using ${ecosystemFile})` : ""}`,
     };
   } catch (error) {
     return {
@@ -161,15 +370,16 @@ export async function reloadApp(
 
 /**
  * Check PM2 app status
+ * `status` is "online" only if every instance is online
  */
 export async function getAppStatus(
-  sshConfig: SSHConfig,
+  ssh: SSHTarget,
   appName: string
-): Promise<PM2Result> {
-  let conn: SSHConnection | null = null;
+): Promise<PM2StatusResult> {
+  let conn: SSHSession | null = null;
 
   try {
-    conn = await createSSHConnection(sshConfig);
+    conn = await connectTarget(ssh);
 
     const result = await conn.exec(`pm2 jlist`);
 
@@ -181,22 +391,22 @@ export async function getAppStatus(
     }
 
     try {
-      const apps = JSON.parse(result.stdout) as Array<{
-        name: string;
-        pm2_env: { status: string };
-      }>;
-      const app = apps.find((a) => a.name === appName);
+      const apps = JSON.parse(result.stdout) as PM2JlistEntry[];
+      const processes = apps.filter((a) => a.name === appName).map(toProcessInfo);
 
-      if (!app) {
+      if (processes.length === 0) {
         return {
           success: false,
           error: `App "${appName}" not found in PM2`,
         };
       }
 
+      const notOnline = processes.find((p) => p.status !== "online");
+
       return {
         success: true,
-        status: app.pm2_env.status,
+        status: notOnline ? notOnline.status : "online",
+        processes,
       };
     } catch {
       return {
@@ -218,13 +428,13 @@ export async function getAppStatus(
  * Verify PM2 app is running
  */
 export async function verifyAppRunning(
-  sshConfig: SSHConfig,
+  ssh: SSHTarget,
   appName: string,
   retries: number = 3,
   delayMs: number = 2000
 ): Promise<PM2Result> {
   for (let i = 0; i < retries; i++) {
-    const status = await getAppStatus(sshConfig, appName);
+    const status = await getAppStatus(ssh, appName);
 
     if (status.success && status.status === "online") {
       return {
@@ -247,34 +457,27 @@ export async function verifyAppRunning(
 
 /**
  * Start PM2 app (for initial deploy)
+ * @param cwd App directory on the server
  */
 export async function startApp(
-  sshConfig: SSHConfig,
+  ssh: SSHTarget,
   pm2Config: PM2Config,
   cwd: string
 ): Promise<PM2Result> {
-  const { appName, ecosystem, port, env } = pm2Config;
-  let conn: SSHConnection | null = null;
+  let conn: SSHSession | null = null;
 
   try {
-    conn = await createSSHConnection(sshConfig);
-
-    // Build environment variable prefix (Linux format for startApp)
-    const envPrefix = buildEnvPrefix(env, false);
-
-    let command: string;
-
-    if (ecosystem) {
-      // Start with ecosystem file - env vars prepended
-      command = `cd ${cwd} && ${envPrefix}pm2 start ${ecosystem}`;
-    } else {
-      // Standalone mode: merge PORT into env if provided
-      const envWithPort = port ? { PORT: String(port), ...env } : env;
-      const standaloneEnvPrefix = buildEnvPrefix(envWithPort, false);
-      command = `cd ${cwd} && ${standaloneEnvPrefix}pm2 start .next/standalone/server.js --name ${appName}`;
-    }
-
-    const result = await conn.exec(command);
+    conn = await connectTarget(ssh);
+
+    const platform = await detectPlatform(conn);
+    const ecosystemFile = await findEcosystemFile(conn, platform, cwd, pm2Config.ecosystem);
+    const envFile = await deliverEnvFile(conn, platform, cwd, pm2Config, ecosystemFile);
+    await deliverEcosystemFile(conn, platform, cwd, pm2Config, ecosystemFile, envFile);
+    const result = await conn.exec(
+      ecosystemFile && isGenerated(pm2Config)
+        ? getStartOrReloadCommand(platform, cwd, pm2Config)
+        : getStartCommand(platform, cwd, pm2Config, ecosystemFile, envFile)
+    );
 
     if (result.code !== 0) {
       return {
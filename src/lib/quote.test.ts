@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { quotePowerShell } from "./quote.js";
+
+describe("quotePowerShell", () => {
+  it("keeps plain values unquoted", () => {
+    assert.equal(quotePowerShell("my-app.v2"), "my-app.v2");
+    assert.equal(quotePowerShell("/var/www/app"), "/var/www/app");
+  });
+
+  it("quotes a comma, which would build an array", () => {
+    assert.equal(quotePowerShell("a,b"), "'a,b'");
+  });
+
+  it("quotes a leading @, which would splat a variable", () => {
+    assert.equal(quotePowerShell("@foo"), "'@foo'");
+    assert.equal(quotePowerShell("user@host"), "'user@host'");
+  });
+
+  it("doubles single quotes inside the value", () => {
+    assert.equal(quotePowerShell("it's"), "'it''s'");
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Quoting for values interpolated into remote commands
+ * Every value that comes from config or the user (paths, app names, env values)
+ * must pass through one of these before it is put into a command line.
+ */
+
+// Safe without quotes ("=" and "," separate arguments in cmd.exe; in PowerShell ","
+// builds an array and a leading "@" splats a variable)
+const PLAIN = /^[\w@+=:,./-]+$/;
+const PLAIN_CMD = /^[\w@+:.\\/-]+$/;
+const PLAIN_POWERSHELL = /^[\w+=:./-]+$/;
+
+/**
+ * POSIX sh: single quotes, nothing inside is expanded ('\'' for a quote)
+ */
+export function quotePosix(value: string): string {
+  if (value !== "" && PLAIN.test(value)) {
+    return value;
+  }
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * PowerShell: single quotes, doubled inside (also the typographic quotes PowerShell accepts)
+ */
+export function quotePowerShell(value: string): string {
+  if (value !== "" && PLAIN_POWERSHELL.test(value)) {
+    return value;
+  }
+  return `'${value.replace(/['‘’‚‛]/g, "$&$&")}'`;
+}
+
+/**
+ * Reject what cmd.exe cannot represent in a command line
+ */
+function assertCmdSafe(value: string): void {
+  if (/[\r\n\0]/.test(value)) {
+    throw new Error(`Value cannot be passed to cmd.exe (contains a line break): ${JSON.stringify(value)}`);
+  }
+}
+
+/**
+ * cmd.exe argument: double quotes, with %VAR% expansion blocked
+ * Inside quotes cmd still expands %VAR%, so each "%" is written as ^% between
+ * quoted parts: the variable name then contains "^" and never matches. cmd has
+ * no escape for a quote inside quotes, so a value with `"` is rejected.
+ * Backslashes before a closing quote are doubled for the program's argument parser.
+ */
+export function quoteCmd(value: string): string {
+  assertCmdSafe(value);
+
+  if (value.includes('"')) {
+    throw new Error(`Value cannot be quoted for cmd.exe (contains a double quote): ${value}`);
+  }
+  if (value !== "" && PLAIN_CMD.test(value)) {
+    return value;
+  }
+  return value
+    .split("%")
+    .map((part) => `"${part.replace(/(\\+)$/, "$1$1")}"`)
+    .join("^%");
+}
+
+/**
+ * cmd.exe text outside quotes: every special character escaped with ^
+ * Used for `set NAME=value`, where quotes would become part of the value.
+ */
+export function escapeCmd(value: string): string {
+  assertCmdSafe(value);
+  return value.replace(/[\^&|<>()"%!]/g, "^$&");
+}
+
+/**
+ * Check an environment variable name before it is put into a command
+ */
+export function assertEnvName(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid environment variable name: ${JSON.stringify(name)}`);
+  }
+  return name;
+}
@@ -0,0 +1,226 @@
+import { posix } from "node:path";
+import { connectTarget, type SSHSession, type SSHTarget } from "./ssh.js";
+import { quotePosix } from "./quote.js";
+import { replaceFile } from "./sftp.js";
+
+/**
+ * Release layout (Capistrano-style):
+ *
+ *   <remotePath>/
+ *   ├── releases/
+ *   │   ├── 20250101120000000/
+ *   │   └── 20250102093000123/
+ *   └── current -> releases/20250102093000123
+ */
+export const RELEASES_DIR = "releases";
+export const CURRENT_LINK = "current";
+
+export interface ReleaseState {
+  releases: string[];
+  current: string | null;
+}
+
+export interface ReleaseInfo {
+  name: string;
+  path: string;
+  previous: string | null;
+}
+
+/**
+ * Create a sortable release name from a date (YYYYMMDDHHmmssSSS, UTC)
+ * Older 14-digit names (without milliseconds) still sort before newer ones.
+ */
+export function createReleaseName(date: Date = new Date()): string {
+  return date.toISOString().replace(/\D/g, "").slice(0, 17);
+}
+
+/**
+ * Absolute path of a release directory
+ */
+export function getReleasePath(remotePath: string, name: string): string {
+  return posix.join(remotePath, RELEASES_DIR, name);
+}
+
+/**
+ * Absolute path of the `current` symlink
+ */
+export function getCurrentPath(remotePath: string): string {
+  return posix.join(remotePath, CURRENT_LINK);
+}
+
+/**
+ * List release names on the server (oldest first)
+ */
+export async function listReleases(conn: SSHSession, remotePath: string): Promise<string[]> {
+  const releasesPath = posix.join(remotePath, RELEASES_DIR);
+  const result = await conn.exec(`ls -1 ${quotePosix(releasesPath)} 2>/dev/null`);
+
+  if (result.code !== 0) {
+    return [];
+  }
+
+  return result.stdout
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .sort();
+}
+
+/**
+ * Read the release name the `current` symlink points to
+ */
+export async function getCurrentRelease(
+  conn: SSHSession,
+  remotePath: string
+): Promise<string | null> {
+  const result = await conn.exec(`readlink ${quotePosix(getCurrentPath(remotePath))} 2>/dev/null`);
+  const target = result.stdout.trim();
+
+  if (result.code !== 0 || !target) {
+    return null;
+  }
+
+  return posix.basename(target);
+}
+
+/**
+ * Create a new release directory and find the release it replaces
+ * Fails if the directory already exists, so two deploys never share a release
+ */
+export async function prepareRelease(
+  ssh: SSHTarget,
+  remotePath: string,
+  name: string = createReleaseName()
+): Promise<ReleaseInfo> {
+  const conn = await connectTarget(ssh);
+
+  try {
+    const previous = await getCurrentRelease(conn, remotePath);
+    const path = getReleasePath(remotePath, name);
+    const result = await conn.exec(
+      `mkdir -p ${quotePosix(posix.dirname(path))} && mkdir ${quotePosix(path)}`
+    );
+
+    if (result.code !== 0) {
+      throw new Error(result.stderr || `Failed to create release directory: ${path}`);
+    }
+
+    return { name, path, previous };
+  } finally {
+    conn.close();
+  }
+}
+
+/**
+ * Point the `current` symlink to a release
+ * The new link is created next to `current` and renamed over it via SFTP (rename(2)
+ * replaces the link itself), so the switch is atomic without GNU `mv -T`.
+ */
+export async function activateRelease(
+  ssh: SSHTarget,
+  remotePath: string,
+  name: string
+): Promise<void> {
+  const conn = await connectTarget(ssh);
+
+  try {
+    const currentPath = getCurrentPath(remotePath);
+    const target = posix.join(RELEASES_DIR, name);
+    const tempLink = `${currentPath}.tmp`;
+
+    const result = await conn.exec(
+      `test -d ${quotePosix(getReleasePath(remotePath, name))} && ` +
+        `ln -sfn ${quotePosix(target)} ${quotePosix(tempLink)}`
+    );
+
+    if (result.code !== 0) {
+      throw new Error(result.stderr || `Failed to activate release ${name}`);
+    }
+
+    const sftp = await conn.sftp();
+    await replaceFile(sftp, tempLink, currentPath);
+  } finally {
+    conn.close();
+  }
+}
+
+/**
+ * Read the releases kept on the server and the active one
+ */
+export async function getReleaseState(
+  ssh: SSHTarget,
+  remotePath: string
+): Promise<ReleaseState> {
+  const conn = await connectTarget(ssh);
+
+  try {
+    const releases = await listReleases(conn, remotePath);
+    const current = await getCurrentRelease(conn, remotePath);
+    return { releases, current };
+  } finally {
+    conn.close();
+  }
+}
+
+/**
+ * Remove the directory of a failed release, so it is neither kept by prune nor offered by rollback
+ * The active release is never removed (e.g. when restoring the previous one failed)
+ * @returns Whether the release was removed
+ */
+export async function removeRelease(
+  ssh: SSHTarget,
+  remotePath: string,
+  name: string
+): Promise<boolean> {
+  const conn = await connectTarget(ssh);
+
+  try {
+    if ((await getCurrentRelease(conn, remotePath)) === name) {
+      return false;
+    }
+
+    const result = await conn.exec(`rm -rf ${quotePosix(getReleasePath(remotePath, name))}`);
+    if (result.code !== 0) {
+      throw new Error(result.stderr || `Failed to remove release ${name}`);
+    }
+    return true;
+  } finally {
+    conn.close();
+  }
+}
+
+/**
+ * Remove old releases, keeping the newest `keep` ones
+ * The active release is never removed, even if it is older than the kept ones
+ * @returns Names of the removed releases
+ */
+export async function pruneReleases(
+  ssh: SSHTarget,
+  remotePath: string,
+  keep: number
+): Promise<string[]> {
+  const conn = await connectTarget(ssh);
+
+  try {
+    const releases = await listReleases(conn, remotePath);
+    const current = await getCurrentRelease(conn, remotePath);
+    const removable = releases
+      .slice(0, Math.max(0, releases.length - keep))
+      .filter((name) => name !== current);
+
+    if (removable.length === 0) {
+      return [];
+    }
+
+    const paths = removable.map((name) => quotePosix(getReleasePath(remotePath, name))).join(" ");
+    const result = await conn.exec(`rm -rf ${paths}`);
+
+    if (result.code !== 0) {
+      throw new Error(result.stderr || "Failed to remove old releases");
+    }
+
+    return removable;
+  } finally {
+    conn.close();
+  }
+}
@@ -1,24 +1,149 @@
 import { execa } from "execa";
-import { existsSync, readdirSync, statSync, createReadStream } from "node:fs";
-import { join, basename, dirname, relative } from "node:path";
-import { Client } from "ssh2";
+import {
+  readdirSync,
+  statSync,
+  mkdtempSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join, basename, relative, sep } from "node:path";
+import { getPinnedFingerprint, getSSHHostKeySettings } from "./hostkeys.js";
+import {
+  createPathFilter,
+  expandIncludePatterns,
+  toRsyncFilterRules,
+  type PathFilter,
+} from "./patterns.js";
+import { pruneRemoteFiles, uploadFilesWithSFTP } from "./sftp.js";
+import {
+  getJumpHosts,
+  getTargetConfig,
+  isPrivateKeyEncrypted,
+  openJumpTunnel,
+  type SSHTarget,
+} from "./ssh.js";
 import type { SSHConfig, UploadConfig } from "../config/schema.js";
+import { formatBytes } from "../utils/logger.js";
 
 export interface UploadProgress {
+  /** File being transferred ("" before the first one) */
   file: string;
+  /** Bytes sent so far (all files) */
   transferred: number;
+  /** Total bytes (estimated from the percentage with rsync) */
   total: number;
   percentage: number;
+  filesDone: number;
+  filesTotal: number;
+  /** Transfer rate in bytes per second (rsync only) */
+  rate?: number;
+  /** Estimated seconds left (rsync only) */
+  eta?: number;
+}
+
+export interface UploadOptions {
+  /**
+   * Previous release directory on the server. Unchanged files are hard-linked
+   * from there instead of being transferred (rsync --link-dest, SFTP hardlink)
+   */
+  linkDest?: string;
+  /** Report what would change without writing or deleting anything */
+  dryRun?: boolean;
+  /** Send every file: SFTP ignores its manifest, rsync its size/mtime quick check */
+  force?: boolean;
+}
+
+export interface FileChange {
+  /** Path relative to the project root ("/" separated) */
+  path: string;
+  type: "added" | "changed" | "deleted";
+  /** Local size, or the remote size of a deleted file (unknown with rsync) */
+  size?: number;
 }
 
 export interface UploadResult {
   method: "rsync" | "sftp";
   filesTransferred: number;
+  /** Files already on the server (skipped or hard-linked) */
+  filesUnchanged?: number;
   bytesTransferred?: number;
+  /** Remote paths removed by upload.delete (with dryRun: that would be removed) */
+  deleted?: string[];
+  /** With dryRun: the files that would be added, changed or deleted */
+  changes?: FileChange[];
+  /** rsync: bytes sent as file data (changed parts only) */
+  literalBytes?: number;
+  /** rsync: bytes the server already had and reused */
+  matchedBytes?: number;
+  /** rsync: total size / bytes sent and received */
+  speedup?: number;
   success: boolean;
   error?: string;
 }
 
+/**
+ * Whether stale remote files are deleted: upload.delete, or --delete in rsyncOptions
+ */
+export function isDeleteEnabled(uploadConfig: UploadConfig): boolean {
+  return uploadConfig.delete ?? uploadConfig.rsyncOptions.some((opt) => opt.startsWith("--delete"));
+}
+
+/**
+ * Short option cluster such as "-avz"
+ */
+function isShortFlags(option: string): boolean {
+  return /^-[a-zA-Z]+$/.test(option);
+}
+
+/**
+ * Whether transfers are compressed: upload.compression, or -z / --compress in rsyncOptions
+ */
+export function isCompressionEnabled(uploadConfig: UploadConfig): boolean {
+  const { compression, rsyncOptions } = uploadConfig;
+  if (compression !== undefined) {
+    return compression !== false;
+  }
+  return rsyncOptions.some(
+    (opt) => (isShortFlags(opt) && opt.includes("z")) || opt.startsWith("--compress")
+  );
+}
+
+/**
+ * rsyncOptions with upload.delete, upload.compression and upload.bandwidthLimit applied
+ * These settings override the matching flags of rsyncOptions.
+ */
+function getRsyncOptions(uploadConfig: UploadConfig): string[] {
+  const { rsyncOptions, compression, bandwidthLimit } = uploadConfig;
+
+  const deleteEnabled = isDeleteEnabled(uploadConfig);
+  let args = rsyncOptions.filter((opt) => deleteEnabled || !opt.startsWith("--delete"));
+  if (deleteEnabled && !args.some((opt) => opt.startsWith("--delete"))) {
+    args.push("--delete");
+  }
+
+  if (compression !== undefined) {
+    args = args
+      .filter((opt) => !/^--(?:compress|zl|zc|old-compress|new-compress)/.test(opt))
+      .map((opt) => (isShortFlags(opt) ? opt.replace(/z/g, "") : opt))
+      .filter((opt) => opt !== "-");
+
+    if (compression !== false) {
+      args.push("-z");
+      if (typeof compression === "number") {
+        args.push(`--compress-level=${compression}`);
+      }
+    }
+  }
+
+  if (bandwidthLimit) {
+    args = args.filter((opt) => !opt.startsWith("--bwlimit"));
+    args.push(`--bwlimit=${bandwidthLimit}`);
+  }
+
+  return args;
+}
+
 /**
  * Check if rsync is available
  */
@@ -31,6 +156,20 @@ export async function isRsyncAvailable(): Promise<boolean> {
   }
 }
 
+/**
+ * Installed rsync version as [major, minor]
+ * macOS ships rsync 2.6.9 (or openrsync), which has no --info option.
+ */
+async function getRsyncVersion(): Promise<[number, number] | null> {
+  try {
+    const { stdout } = await execa("rsync", ["--version"]);
+    const match = stdout.match(/version\s+(\d+)\.(\d+)/);
+    return match ? [Number(match[1]), Number(match[2])] : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Check if sshpass is available (for password auth)
  */
@@ -44,51 +183,309 @@ export async function isSshpassAvailable(): Promise<boolean> {
 }
 
 /**
- * Upload files with rsync
+ * Check whether rsync's ssh needs sshpass: password auth, or an encrypted key
+ * file without an agent to unlock it
  */
-export async function uploadWithRsync(
-  sshConfig: SSHConfig,
-  uploadConfig: UploadConfig,
-  cwd: string = process.cwd(),
-  onProgress?: (message: string) => void
-): Promise<UploadResult> {
-  const { remotePath, exclude, include, rsyncOptions } = uploadConfig;
-  const { host, user, port, privateKeyPath, privateKey, password } = sshConfig;
+function rsyncNeedsSshpass(sshConfig: SSHConfig): boolean {
+  const { privateKeyPath, privateKey, password, passphrase, agent } = sshConfig;
+
+  if (password && !privateKeyPath && !privateKey) {
+    return true;
+  }
+
+  return Boolean(
+    privateKeyPath && passphrase && !agent && privateKey && isPrivateKeyEncrypted(privateKey)
+  );
+}
+
+/**
+ * Authentication options for the ssh command rsync runs
+ */
+function getRsyncAuth(sshConfig: SSHConfig): {
+  sshOptions: string[];
+  sshpassArgs?: string[];
+  env?: Record<string, string>;
+} {
+  const { privateKeyPath, privateKey, password, passphrase, agent } = sshConfig;
 
   // rsync requires a key file path, it cannot use inline key content
-  if (!privateKeyPath && privateKey && !password) {
+  if (!privateKeyPath && privateKey && !password && !agent) {
     throw new Error(
-      "rsync requires privateKeyPath. For inline SSH keys, SFTP fallback will be used."
+      "rsync requires privateKeyPath or ssh-agent. For inline SSH keys, SFTP fallback will be used."
     );
   }
 
-  // Password auth requires sshpass
-  const usePassword = Boolean(password) && !privateKeyPath;
+  const sshOptions: string[] = [];
+  let sshpassArgs: string[] | undefined;
+
+  if (privateKeyPath) {
+    sshOptions.push("-i", `"${privateKeyPath}"`);
+  }
+
+  if (agent === false) {
+    sshOptions.push("-o", "IdentityAgent=none");
+  }
+
+  if (password && !privateKeyPath && !privateKey) {
+    sshOptions.push("-o", "PubkeyAuthentication=no");
+    sshpassArgs = ["-p", password];
+  } else if (passphrase && rsyncNeedsSshpass(sshConfig)) {
+    // Match ssh's "Enter passphrase for key" prompt instead of the password prompt
+    sshpassArgs = ["-P", "passphrase", "-p", passphrase];
+  }
+
+  // Point ssh at the configured agent ("pageant" is handled by ssh2 only)
+  const env = typeof agent === "string" && agent !== "pageant" ? { SSH_AUTH_SOCK: agent } : undefined;
+
+  return { sshOptions, sshpassArgs, env };
+}
+
+/**
+ * ssh cannot answer prompts for jump hosts, so every hop needs a key file or ssh-agent
+ */
+function canRsyncThroughJumpHosts(sshConfig: SSHConfig): boolean {
+  return getJumpHosts(sshConfig).every(
+    (hop) => Boolean(hop.privateKeyPath || hop.agent) && !rsyncNeedsSshpass(hop)
+  );
+}
+
+/**
+ * Host key settings for rsync's ssh. A pinned key behind jump hosts is read through a tunnel.
+ */
+async function getHostKeySettings(
+  sshConfig: SSHConfig,
+  jumpHosts: SSHConfig[]
+): Promise<{ settings: Record<string, string>; cleanup: () => void }> {
+  if (!jumpHosts.length || !getPinnedFingerprint(sshConfig) || sshConfig.strictHostKeyChecking === "no") {
+    return getSSHHostKeySettings(sshConfig);
+  }
+
+  const tunnel = await openJumpTunnel(sshConfig, jumpHosts);
+  try {
+    return await getSSHHostKeySettings(sshConfig, tunnel.sock);
+  } finally {
+    tunnel.close();
+  }
+}
+
+/**
+ * Write a temporary ssh config with one `Host` block per jump host, each with
+ * its own user, key and host key checks, chained with ProxyJump
+ * @returns ssh options that route the connection through the hops
+ */
+async function createJumpHostsConfig(
+  jumpHosts: SSHConfig[]
+): Promise<{ options: string; cleanup: () => void }> {
+  const dir = mkdtempSync(join(tmpdir(), "pxnship-"));
+  const cleanups = [() => rmSync(dir, { recursive: true, force: true })];
+  const cleanup = () => {
+    for (const fn of cleanups) fn();
+  };
+
+  try {
+    const blocks: string[] = [];
+
+    for (const [index, hop] of jumpHosts.entries()) {
+      const hostKey = await getHostKeySettings(hop, jumpHosts.slice(0, index));
+      cleanups.push(hostKey.cleanup);
+
+      const lines = [
+        `Host pxnship-jump-${index}`,
+        `  HostName ${hop.host}`,
+        `  User ${hop.user}`,
+        `  Port ${hop.port}`,
+      ];
+      if (hop.privateKeyPath) lines.push(`  IdentityFile "${hop.privateKeyPath}"`);
+      if (hop.agent === false) lines.push("  IdentityAgent none");
+      for (const [name, value] of Object.entries(hostKey.settings)) {
+        lines.push(`  ${name} ${value}`);
+      }
+      if (index > 0) lines.push(`  ProxyJump pxnship-jump-${index - 1}`);
+
+      blocks.push(lines.join("\n"));
+    }
+
+    const configFile = join(dir, "ssh_config");
+    writeFileSync(configFile, `${blocks.join("\n\n")}\n`, { mode: 0o600 });
+
+    return {
+      options: `-F "${configFile}" -J pxnship-jump-${jumpHosts.length - 1}`,
+      cleanup,
+    };
+  } catch (error) {
+    cleanup();
+    throw error;
+  }
+}
+
+/**
+ * Write exclude and protect patterns to a temporary rsync filter (merge) file
+ * Protect rules come first so a re-included path can never be deleted.
+ */
+function writeRsyncFilterFile(
+  exclude: string[],
+  protect: string[]
+): { path: string; cleanup: () => void } {
+  const dir = mkdtempSync(join(tmpdir(), "pxnship-"));
+  const path = join(dir, "filter.rules");
+  const rules = [...toRsyncFilterRules(protect, "protect"), ...toRsyncFilterRules(exclude, "exclude")];
+
+  writeFileSync(path, `${rules.join("\n")}\n`);
+
+  return { path, cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+}
+
+/**
+ * Read file changes from `rsync --itemize-changes` output
+ * "<f+++++++++ path" is a new file, "<f.st...... path" a changed one
+ */
+function parseItemizedChanges(stdout: string, cwd: string): FileChange[] {
+  const changes: FileChange[] = [];
+
+  // Progress lines end with "\r"
+  for (const line of stdout.split(/[\r\n]+/)) {
+    const deleted = line.match(/^\*deleting\s+(.+)$/);
+    if (deleted?.[1]) {
+      // Directories end with "/"
+      if (!deleted[1].endsWith("/")) {
+        changes.push({ path: deleted[1], type: "deleted" });
+      }
+      continue;
+    }
+
+    const item = line.match(/^<f(\S{9,10}) (.+)$/);
+    if (item?.[1] && item[2]) {
+      const path = item[2];
+      let size: number | undefined;
+      try {
+        size = statSync(join(cwd, path)).size;
+      } catch {
+        // Local file vanished during the run
+      }
+      changes.push({ path, type: item[1].startsWith("+") ? "added" : "changed", size });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Parse a number from rsync output ("1,234,567", or "1.23M" with --human-readable)
+ */
+function parseRsyncNumber(value: string, unit = ""): number {
+  const units = ["", "K", "M", "G", "T"];
+  const power = Math.max(units.indexOf(unit.charAt(0).toUpperCase()), 0);
+  return Math.round(Number.parseFloat(value.replace(/,/g, "")) * 1024 ** power);
+}
+
+/**
+ * Parse one `--info=progress2` line:
+ * "  12,345,678  45%    1.23MB/s    0:00:10 (xfr#12, to-chk=34/100)"
+ */
+function parseRsyncProgress(line: string, file: string): UploadProgress | null {
+  const match = line.match(
+    /^\s*([\d,.]+)([KMGT]?)\s+(\d+)%\s+([\d,.]+)([kKMGT]?)B\/s\s+(\d+):(\d+):(\d+)(?:\s+\(xfr#\d+,\s*(?:to|ir)-chk=(\d+)\/(\d+)\))?/
+  );
+  if (!match) return null;
+
+  const [, bytes = "0", bytesUnit, percent = "0", rate = "0", rateUnit, hours, minutes, seconds] = match;
+  const transferred = parseRsyncNumber(bytes, bytesUnit);
+  const percentage = Number(percent);
+  const filesTotal = match[10] ? Number(match[10]) : 0;
+
+  return {
+    file,
+    transferred,
+    total: percentage > 0 ? Math.round((transferred * 100) / percentage) : transferred,
+    percentage,
+    filesDone: filesTotal ? filesTotal - Number(match[9]) : 0,
+    filesTotal,
+    rate: parseRsyncNumber(rate, rateUnit),
+    eta: Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds),
+  };
+}
+
+/**
+ * Read the `--stats` summary
+ * rsync 3.x prints "Number of regular files transferred", 2.6.9 "Number of files transferred".
+ */
+function parseRsyncStats(stdout: string): {
+  filesTransferred: number;
+  regularFiles?: number;
+  bytesSent?: number;
+  literalBytes?: number;
+  matchedBytes?: number;
+  speedup?: number;
+} {
+  const read = (pattern: RegExp): number | undefined => {
+    const value = stdout.match(pattern)?.[1];
+    return value !== undefined ? parseRsyncNumber(value) : undefined;
+  };
+  const speedup = stdout.match(/speedup is\s+([\d,.]+)/)?.[1];
+
+  return {
+    filesTransferred: read(/Number of (?:regular )?files transferred:\s*([\d,]+)/) ?? 0,
+    // "Number of files: 1,234 (reg: 1,100, dir: 134)"
+    regularFiles: read(/Number of files:.*?reg:\s*([\d,]+)/),
+    bytesSent: read(/Total bytes sent:\s*([\d,]+)/),
+    literalBytes: read(/Literal data:\s*([\d,]+)/),
+    matchedBytes: read(/Matched data:\s*([\d,]+)/),
+    speedup: speedup !== undefined ? Number.parseFloat(speedup.replace(/,/g, "")) : undefined,
+  };
+}
+
+/**
+ * Upload files with rsync
+ * With rsync 3.1+ the transfer progress is streamed to onProgress.
+ */
+export async function uploadWithRsync(
+  sshConfig: SSHConfig,
+  uploadConfig: UploadConfig,
+  cwd: string = process.cwd(),
+  onProgress?: (progress: UploadProgress) => void,
+  options: UploadOptions = {}
+): Promise<UploadResult> {
+  const { remotePath, exclude, include, protect } = uploadConfig;
+  const { host, user, port } = sshConfig;
+  const auth = getRsyncAuth(sshConfig);
   let command = "rsync";
   let commandArgs: string[] = [];
 
-  if (usePassword && password) {
-    // Run rsync via sshpass for password auth
+  if (auth.sshpassArgs) {
+    // Answer the password / key passphrase prompt with sshpass
     command = "sshpass";
-    commandArgs = ["-p", password, "rsync"];
+    commandArgs = [...auth.sshpassArgs, "rsync"];
   }
 
   // Build rsync arguments
-  const args: string[] = [...rsyncOptions];
-
-  // SSH command options
-  let sshCommand: string;
-  if (usePassword) {
-    sshCommand = `ssh -p ${port} -o StrictHostKeyChecking=no -o PubkeyAuthentication=no`;
-  } else {
-    sshCommand = `ssh -p ${port} -i "${privateKeyPath}" -o StrictHostKeyChecking=no`;
-  }
+  const args = getRsyncOptions(uploadConfig);
+
+  // SSH command options (host key checks match the ssh2 connection)
+  const jumpHosts = getJumpHosts(sshConfig);
+  const jumpOptions = jumpHosts.length ? await createJumpHostsConfig(jumpHosts) : null;
+  const hostKey = await getHostKeySettings(sshConfig, jumpHosts).catch((error: unknown) => {
+    jumpOptions?.cleanup();
+    throw error;
+  });
+  const filterFile = writeRsyncFilterFile(exclude, protect);
+  const cleanup = () => {
+    hostKey.cleanup();
+    jumpOptions?.cleanup();
+    filterFile.cleanup();
+  };
+
+  const sshCommand = [
+    "ssh",
+    ...(jumpOptions ? [jumpOptions.options] : []),
+    "-p",
+    String(port),
+    ...auth.sshOptions,
+    ...Object.entries(hostKey.settings).map(([name, value]) => `-o ${name}=${value}`),
+  ].join(" ");
   args.push("-e", sshCommand);
 
-  // Exclude patterns
-  for (const pattern of exclude) {
-    args.push("--exclude", pattern);
-  }
+  // Exclude and protect patterns, with the same matching as collectFiles()
+  args.push(`--filter=. ${filterFile.path}`);
 
   // Use --relative to preserve directory structure (e.g., .next/static/ stays as .next/static/)
   args.push("--relative");
@@ -96,17 +493,38 @@ export async function uploadWithRsync(
   // Add --stats to get transfer statistics
   args.push("--stats");
 
-  // Include patterns (source files) - use relative paths with --relative flag
-  const sources: string[] = [];
-  for (const pattern of include) {
-    const sourcePath = join(cwd, pattern);
-    if (existsSync(sourcePath)) {
-      // Use relative path (e.g., ./.next/static/) for --relative flag
-      sources.push("./" + pattern.replace(/\/$/, ""));
-    }
+  // One line per transferred or deleted file (the current file of the progress)
+  args.push("--itemize-changes");
+
+  // List changes (and deletions) without transferring
+  if (options.dryRun) {
+    args.push("--dry-run");
+  }
+
+  // Overall progress instead of per-file lines. Without incremental recursion
+  // the file count is known up front, so the percentage does not jump back.
+  const version = await getRsyncVersion();
+  const streamProgress = !options.dryRun && version !== null && (version[0] > 3 || (version[0] === 3 && version[1] >= 1));
+  if (streamProgress) {
+    args.push("--info=progress2", "--no-inc-recursive");
   }
 
+  // Compare every file by content instead of size and mtime
+  if (options.force) {
+    args.push("--ignore-times");
+  }
+
+  // Hard-link unchanged files from the previous release
+  if (options.linkDest) {
+    args.push(`--link-dest=${options.linkDest}`);
+  }
+
+  // Include patterns (source files) - use relative paths with --relative flag
+  // Use relative path (e.g., ./.next/static) for --relative flag
+  const sources = expandIncludePatterns(include, cwd).map((path) => `./${path}`);
+
   if (sources.length === 0) {
+    cleanup();
     throw new Error("No files to upload. Make sure build output exists.");
   }
 
@@ -119,42 +537,64 @@ export async function uploadWithRsync(
   // Combine command arguments
   const finalArgs = [...commandArgs, ...args];
 
-  onProgress?.(`Syncing files to ${host}:${remotePath}`);
-
   try {
-    const result = await execa(command, finalArgs, {
+    const subprocess = execa(command, finalArgs, {
       cwd,
+      env: auth.env,
       stdio: ["pipe", "pipe", "pipe"],
     });
 
-    // Parse rsync stats output
-    const stdout = result.stdout;
-
-    // Extract total file count from "Number of files: X" (includes dirs)
-    // or count lines that don't start with stats
-    const filesMatch = stdout.match(/Number of files:\s*([\d,]+)/);
-    let filesTransferred = filesMatch?.[1] ? parseInt(filesMatch[1].replace(/,/g, ""), 10) : 0;
-
-    // Fallback: count non-empty lines that look like file paths (not stats lines)
-    if (filesTransferred === 0) {
-      const lines = stdout.split("\n").filter((l) => {
-        const trimmed = l.trim();
-        return trimmed && !trimmed.startsWith("Number") && !trimmed.startsWith("Total")
-          && !trimmed.startsWith("sent") && !trimmed.startsWith("File list")
-          && !trimmed.startsWith("Matched") && !trimmed.startsWith("Unmatched");
+    if (streamProgress && onProgress) {
+      let buffer = "";
+      let file = "";
+
+      subprocess.stdout?.on("data", (chunk: Buffer) => {
+        // Progress lines are redrawn with "\r", file lines end with "\n"
+        const lines = (buffer + chunk.toString()).split(/[\r\n]/);
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const item = line.match(/^[<>ch.*]\S{9,10} (.+)$/);
+          if (item?.[1]) {
+            file = basename(item[1]);
+            continue;
+          }
+          const progress = parseRsyncProgress(line, file);
+          if (progress) onProgress(progress);
+        }
       });
-      filesTransferred = lines.length;
     }
 
-    // Extract bytes from "Total sent: X B" or "sent X bytes"
-    const bytesMatch = stdout.match(/(?:Total sent|sent):\s*([\d,]+)\s*B?/i)
-      || stdout.match(/sent\s+([\d,]+)\s+bytes/i);
-    const bytesTransferred = bytesMatch?.[1] ? parseInt(bytesMatch[1].replace(/,/g, ""), 10) : undefined;
+    const { stdout } = await subprocess;
+    const stats = parseRsyncStats(stdout);
+    const changes = parseItemizedChanges(stdout, cwd);
+    const deleted = changes.filter((change) => change.type === "deleted").map((change) => change.path);
+    const filesUnchanged =
+      stats.regularFiles !== undefined ? Math.max(stats.regularFiles - stats.filesTransferred, 0) : undefined;
+
+    if (options.dryRun) {
+      const sent = changes.filter((change) => change.type !== "deleted");
+
+      return {
+        method: "rsync",
+        filesTransferred: sent.length,
+        filesUnchanged,
+        bytesTransferred: sent.reduce((sum, change) => sum + (change.size ?? 0), 0),
+        deleted,
+        changes,
+        success: true,
+      };
+    }
 
     return {
       method: "rsync",
-      filesTransferred,
-      bytesTransferred,
+      filesTransferred: stats.filesTransferred,
+      filesUnchanged,
+      bytesTransferred: stats.bytesSent,
+      deleted,
+      literalBytes: stats.literalBytes,
+      matchedBytes: stats.matchedBytes,
+      speedup: stats.speedup,
       success: true,
     };
   } catch (error) {
@@ -165,43 +605,30 @@ export async function uploadWithRsync(
       success: false,
       error: message,
     };
+  } finally {
+    cleanup();
   }
 }
 
 /**
  * List directory contents recursively
+ * @param dir Directory relative to cwd ("/" separated)
  */
-function walkDirectory(
-  dir: string,
-  baseDir: string,
-  exclude: string[]
-): string[] {
+function walkDirectory(dir: string, cwd: string, exclude: PathFilter): string[] {
   const files: string[] = [];
 
-  if (!existsSync(dir)) return files;
-
-  const entries = readdirSync(dir, { withFileTypes: true });
-
-  for (const entry of entries) {
-    const fullPath = join(dir, entry.name);
-    const relativePath = relative(baseDir, fullPath);
-
-    // Check exclude patterns
-    const shouldExclude = exclude.some((pattern) => {
-      if (pattern.includes("*")) {
-        // Simple glob support
-        const regex = new RegExp(pattern.replace(/\*/g, ".*"));
-        return regex.test(relativePath);
-      }
-      return relativePath.startsWith(pattern) || entry.name === pattern;
-    });
-
-    if (shouldExclude) continue;
+  for (const entry of readdirSync(join(cwd, dir), { withFileTypes: true })) {
+    const relativePath = `${dir}/${entry.name}`;
+    const fullPath = join(cwd, relativePath);
 
     // statSync ile gerçek tipi kontrol et (symlink'ler için gerekli)
     const entryStat = statSync(fullPath);
-    if (entryStat.isDirectory()) {
-      files.push(...walkDirectory(fullPath, baseDir, exclude));
+    const isDir = entryStat.isDirectory();
+
+    if (exclude.matches(relativePath, isDir)) continue;
+
+    if (isDir) {
+      files.push(...walkDirectory(relativePath, cwd, exclude));
     } else if (entryStat.isFile()) {
       files.push(fullPath);
     }
@@ -212,200 +639,208 @@ function walkDirectory(
 
 /**
  * include/exclude pattern'lerine göre yüklenecek dosyaları topla
+ * rsync ile aynı kurallar (lib/patterns.ts), her yöntem aynı dosyaları gönderir
  */
 export function collectFiles(
   include: string[],
   exclude: string[],
   cwd: string = process.cwd()
 ): string[] {
+  const filter = createPathFilter(exclude);
   const files: string[] = [];
 
-  for (const pattern of include) {
-    const sourcePath = join(cwd, pattern);
-    if (!existsSync(sourcePath)) continue;
-
+  for (const path of expandIncludePatterns(include, cwd, filter)) {
+    const sourcePath = join(cwd, path);
     const stat = statSync(sourcePath);
 
+    // Like rsync, the filters also apply to the include entries themselves
+    if (filter.matches(path, stat.isDirectory())) continue;
+
     if (stat.isDirectory()) {
-      files.push(...walkDirectory(sourcePath, cwd, exclude));
+      files.push(...walkDirectory(path, cwd, filter));
     } else if (stat.isFile()) {
       files.push(sourcePath);
     }
   }
 
-  return files;
+  // Overlapping include entries list a file once
+  return [...new Set(files)];
 }
 
 /**
  * SFTP ile dosyaları yükle (Windows fallback)
+ * Paralel aktarım; değişmeyen dosyalar manifest sayesinde atlanır
  */
 export async function uploadWithSFTP(
-  sshConfig: SSHConfig,
+  ssh: SSHTarget,
   uploadConfig: UploadConfig,
   cwd: string = process.cwd(),
-  onProgress?: (progress: UploadProgress) => void
+  onProgress?: (progress: UploadProgress) => void,
+  options: UploadOptions = {}
 ): Promise<UploadResult> {
-  const { remotePath, exclude, include } = uploadConfig;
-
-  return new Promise((resolve) => {
-    const client = new Client();
-    let filesTransferred = 0;
-    let currentFileIndex = 0;
-
-    // Find files to upload
-    const collectedFiles = collectFiles(include, exclude, cwd);
-    const filesToUpload = collectedFiles.map((file) => ({
-      local: file,
-      remote: join(remotePath, relative(cwd, file)),
-    }));
-
-    if (filesToUpload.length === 0) {
-      resolve({
-        method: "sftp",
-        filesTransferred: 0,
-        success: false,
-        error: "No files to upload",
-      });
-      return;
-    }
-
-    client.on("ready", () => {
-      client.sftp((err, sftp) => {
-        if (err) {
-          client.end();
-          resolve({
-            method: "sftp",
-            filesTransferred: 0,
-            success: false,
-            error: err.message,
-          });
-          return;
-        }
-
-        // Upload files sequentially
-        const uploadNext = () => {
-          if (currentFileIndex >= filesToUpload.length) {
-            client.end();
-            resolve({
-              method: "sftp",
-              filesTransferred,
-              success: true,
-            });
-            return;
-          }
+  const { remotePath, exclude, include, sftp } = uploadConfig;
 
-          const file = filesToUpload[currentFileIndex];
-          if (!file) {
-            currentFileIndex++;
-            uploadNext();
-            return;
-          }
+  // Find files to upload
+  const files = collectFiles(include, exclude, cwd).map((file) => ({
+    local: file,
+    path: relative(cwd, file).split(sep).join("/"),
+  }));
 
-          const { local, remote } = file;
-          const remoteDir = dirname(remote);
-          const localStat = statSync(local);
-
-          // Create target directory (mkdir -p equivalent)
-          const mkdirRecursive = (path: string, callback: () => void) => {
-            sftp.mkdir(path, (_err) => {
-              // Directory already exists or was created
-              callback();
-            });
-          };
-
-          // Split directory path and create sequentially
-          const parts = remoteDir.split("/").filter((p) => p);
-          let currentPath = "";
-          const createDirs = (index: number, done: () => void) => {
-            if (index >= parts.length) {
-              done();
-              return;
-            }
-            currentPath += "/" + parts[index];
-            mkdirRecursive(currentPath, () => createDirs(index + 1, done));
-          };
-
-          createDirs(0, () => {
-            // Upload the file
-            const readStream = createReadStream(local);
-            const writeStream = sftp.createWriteStream(remote);
-
-            let transferred = 0;
-
-            readStream.on("data", (chunk: Buffer | string) => {
-              const len = typeof chunk === "string" ? chunk.length : chunk.length;
-              transferred += len;
-              onProgress?.({
-                file: basename(local),
-                transferred,
-                total: localStat.size,
-                percentage: Math.round((transferred / localStat.size) * 100),
-              });
-            });
-
-            writeStream.on("close", () => {
-              filesTransferred++;
-              currentFileIndex++;
-              uploadNext();
-            });
-
-            writeStream.on("error", (_err: Error) => {
-              currentFileIndex++;
-              uploadNext();
-            });
-
-            readStream.pipe(writeStream);
-          });
-        };
+  if (files.length === 0) {
+    return {
+      method: "sftp",
+      filesTransferred: 0,
+      success: false,
+      error: "No files to upload",
+    };
+  }
 
-        uploadNext();
-      });
+  try {
+    const result = await uploadFilesWithSFTP(ssh, files, remotePath, {
+      concurrency: sftp.concurrency,
+      retries: sftp.retries,
+      bandwidthLimit: uploadConfig.bandwidthLimit,
+      compress: isCompressionEnabled(uploadConfig),
+      linkDest: options.linkDest,
+      dryRun: options.dryRun,
+      force: options.force,
+      onProgress: (progress) => {
+        onProgress?.({
+          file: basename(progress.file),
+          transferred: progress.bytesDone,
+          total: progress.bytesTotal,
+          percentage: progress.bytesTotal
+            ? Math.round((progress.bytesDone / progress.bytesTotal) * 100)
+            : 100,
+          filesDone: progress.filesDone,
+          filesTotal: progress.filesTotal,
+        });
+      },
     });
 
-    client.on("error", (err) => {
-      resolve({
+    const failed = result.failed.length;
+    const firstFailure = result.failed[0];
+
+    if (firstFailure) {
+      return {
         method: "sftp",
-        filesTransferred: 0,
+        filesTransferred: result.uploaded,
+        filesUnchanged: result.skipped + result.linked,
+        bytesTransferred: result.bytesTransferred,
         success: false,
-        error: err.message,
+        error: `${failed} file(s) failed to upload, e.g. ${firstFailure.path}: ${firstFailure.error}`,
+      };
+    }
+
+    // Same as rsync --delete: stale files inside the uploaded directories are removed.
+    // A new release directory (linkDest) has nothing stale.
+    let deleted: string[] | undefined;
+    const changes: FileChange[] = [...result.changes];
+
+    if (isDeleteEnabled(uploadConfig) && !options.linkDest) {
+      const roots = expandIncludePatterns(include, cwd).filter((path) =>
+        statSync(join(cwd, path)).isDirectory()
+      );
+
+      const pruned = await pruneRemoteFiles(ssh, remotePath, roots, {
+        keep: files.map((file) => file.path),
+        protect: uploadConfig.protect,
+        exclude,
+        concurrency: sftp.concurrency,
+        dryRun: options.dryRun,
       });
-    });
+      deleted = pruned.deleted;
 
-    client.connect({
-      host: sshConfig.host,
-      port: sshConfig.port,
-      username: sshConfig.user,
-      privateKey: sshConfig.privateKey,
-      password: sshConfig.password,
-    });
-  });
+      for (const path of deleted) {
+        // Directories have no size entry
+        const size = pruned.sizes[path];
+        if (size !== undefined) changes.push({ path, type: "deleted", size });
+      }
+
+      const firstPruneFailure = pruned.failed[0];
+      if (firstPruneFailure) {
+        return {
+          method: "sftp",
+          filesTransferred: result.uploaded,
+          filesUnchanged: result.skipped + result.linked,
+          bytesTransferred: result.bytesTransferred,
+          deleted,
+          success: false,
+          error: `${pruned.failed.length} stale file(s) could not be deleted, e.g. ${firstPruneFailure.path}: ${firstPruneFailure.error}`,
+        };
+      }
+    }
+
+    return {
+      method: "sftp",
+      filesTransferred: result.uploaded,
+      filesUnchanged: result.skipped + result.linked,
+      bytesTransferred: result.bytesTransferred,
+      deleted,
+      changes: options.dryRun ? changes : undefined,
+      success: true,
+    };
+  } catch (error) {
+    return {
+      method: "sftp",
+      filesTransferred: 0,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Progress text for the spinner
+ */
+function formatProgress(progress: UploadProgress): string {
+  const { filesDone, filesTotal, percentage, rate, eta, file } = progress;
+  const files = filesTotal ? `${filesDone}/${filesTotal} files ` : "";
+  const speed = rate !== undefined ? `, ${formatBytes(rate)}/s` : "";
+  const remaining = eta !== undefined ? `, ${Math.floor(eta / 60)}:${String(eta % 60).padStart(2, "0")} left` : "";
+  return `Uploading ${files}(${percentage}%${speed}${remaining}) ${file}`.trimEnd();
 }
 
 /**
  * Automatically select the best upload method
+ * onProgress receives status messages, and the structured progress while files are sent.
  */
 export async function upload(
-  sshConfig: SSHConfig,
+  ssh: SSHTarget,
   uploadConfig: UploadConfig,
   cwd: string = process.cwd(),
-  onProgress?: (message: string) => void
+  onProgress?: (message: string, progress?: UploadProgress) => void,
+  options: UploadOptions = {}
 ): Promise<UploadResult> {
+  const sshConfig = getTargetConfig(ssh);
   const rsyncAvailable = await isRsyncAvailable();
   const hasKeyPath = Boolean(sshConfig.privateKeyPath);
+  const hasAgent = Boolean(sshConfig.agent);
   const isPasswordAuth = Boolean(sshConfig.password) && !sshConfig.privateKey && !hasKeyPath;
+  const jumpSupported = canRsyncThroughJumpHosts(sshConfig);
+  const reportProgress = (progress: UploadProgress) => onProgress?.(formatProgress(progress), progress);
 
-  // Key-based auth with rsync
-  if (uploadConfig.useRsync && rsyncAvailable && hasKeyPath) {
-    onProgress?.("Using rsync for file transfer");
-    return uploadWithRsync(sshConfig, uploadConfig, cwd, onProgress);
+  if (uploadConfig.useRsync && rsyncAvailable && !jumpSupported) {
+    onProgress?.("⚠ rsync needs a key file or ssh-agent for every jump host. SFTP fallback will be used.");
   }
 
-  // Password auth with sshpass + rsync (if sshpass available)
-  if (uploadConfig.useRsync && rsyncAvailable && isPasswordAuth) {
+  if (
+    uploadConfig.useRsync &&
+    rsyncAvailable &&
+    jumpSupported &&
+    (hasKeyPath || hasAgent || isPasswordAuth)
+  ) {
+    // Key file or agent auth with rsync
+    if (!rsyncNeedsSshpass(sshConfig)) {
+      onProgress?.(`Syncing files to ${sshConfig.host}:${uploadConfig.remotePath} with rsync`);
+      return uploadWithRsync(sshConfig, uploadConfig, cwd, reportProgress, options);
+    }
+
+    // Password or key passphrase with sshpass + rsync (if sshpass available)
     const sshpassAvailable = await isSshpassAvailable();
     if (sshpassAvailable) {
       onProgress?.("Using rsync with sshpass for file transfer");
-      return uploadWithRsync(sshConfig, uploadConfig, cwd, onProgress);
+      return uploadWithRsync(sshConfig, uploadConfig, cwd, reportProgress, options);
     }
 
     // sshpass yüklü değil, kullanıcıyı uyar
@@ -423,7 +858,5 @@ export async function upload(
 
   // SFTP fallback
   onProgress?.("Using SFTP for file transfer");
-  return uploadWithSFTP(sshConfig, uploadConfig, cwd, (progress) => {
-    onProgress?.(`Uploading ${progress.file} (${progress.percentage}%)`);
-  });
+  return uploadWithSFTP(ssh, uploadConfig, cwd, reportProgress, options);
 }
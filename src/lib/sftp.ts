@@ -0,0 +1,599 @@
+import { createHash, randomBytes } from "node:crypto";
+import { createReadStream, statSync } from "node:fs";
+import { posix } from "node:path";
+import { Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { FileEntryWithStats, SFTPWrapper, Stats } from "ssh2";
+import { createPathFilter } from "./patterns.js";
+import { connectTarget, ensureRemoteDir, type SSHSession, type SSHTarget } from "./ssh.js";
+import { getStatePath } from "./state.js";
+
+const MANIFEST_FILE = "upload-manifest.json";
+
+export interface ManifestEntry {
+  size: number;
+  /** sha256 of the file content (hex) */
+  hash: string;
+  /** Remote mtime (seconds) after the upload; a file touched on the server since is sent again */
+  mtime?: number;
+}
+
+/**
+ * Files uploaded to a remote directory, keyed by "/" separated relative path
+ * Stored in <remotePath>/.pxnship/upload-manifest.json
+ */
+export interface UploadManifest {
+  version: 1;
+  files: Record<string, ManifestEntry>;
+}
+
+export interface SFTPFile {
+  /** Local file path */
+  local: string;
+  /** Path relative to the remote directory ("/" separated) */
+  path: string;
+}
+
+export interface SFTPProgress {
+  /** File that last made progress */
+  file: string;
+  filesDone: number;
+  filesTotal: number;
+  bytesDone: number;
+  bytesTotal: number;
+}
+
+export interface SFTPUploadOptions {
+  /** Files transferred at the same time (default: 4) */
+  concurrency?: number;
+  /** Attempts per file after the first failure (default: 2) */
+  retries?: number;
+  /** Combined speed limit of all transfers in KB/s */
+  bandwidthLimit?: number;
+  /** Use zlib compression when connecting from a config (a session keeps its own setting) */
+  compress?: boolean;
+  /**
+   * Previous release directory. Unchanged files are hard-linked from there
+   * instead of being transferred (OpenSSH servers)
+   */
+  linkDest?: string;
+  /** Only count what would be uploaded, nothing is written */
+  dryRun?: boolean;
+  /** Upload every file, ignoring the manifest */
+  force?: boolean;
+  onProgress?: (progress: SFTPProgress) => void;
+}
+
+export interface SFTPUploadResult {
+  /** Files sent over the wire (with dryRun: files that would be sent) */
+  uploaded: number;
+  /** Unchanged files already on the server */
+  skipped: number;
+  /** Unchanged files hard-linked from linkDest */
+  linked: number;
+  bytesTransferred: number;
+  failed: Array<{ path: string; error: string }>;
+  /** With dryRun: the files that would be sent */
+  changes: Array<{ path: string; type: "added" | "changed"; size: number }>;
+}
+
+/**
+ * sha256 of a local file
+ */
+export function hashFile(path: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(path)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+/**
+ * Run a worker over items with at most `concurrency` running at once
+ */
+async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++] as T;
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+}
+
+function sftpCall<T = void>(
+  call: (callback: (err: Error | null | undefined, value?: T) => void) => void
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    call((err, value) => (err ? reject(err) : resolve(value as T)));
+  });
+}
+
+function statRemote(sftp: SFTPWrapper, path: string): Promise<Stats | null> {
+  return sftpCall<Stats>((cb) => sftp.stat(path, cb)).catch(() => null);
+}
+
+/**
+ * Speed limit shared by every stream it creates
+ * Each chunk gets the next free time slot, so parallel transfers together stay
+ * below the limit. The transferred callback receives the stream's byte count.
+ */
+function createThrottle(
+  bytesPerSecond: number
+): (transferred: (bytes: number) => void) => Transform {
+  let nextSlot = Date.now();
+
+  return (transferred) => {
+    let bytes = 0;
+
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        const now = Date.now();
+        const delay = Math.max(nextSlot - now, 0);
+        nextSlot = Math.max(nextSlot, now) + (chunk.length / bytesPerSecond) * 1000;
+
+        setTimeout(() => {
+          bytes += chunk.length;
+          transferred(bytes);
+          callback(null, chunk);
+        }, delay);
+      },
+    });
+  };
+}
+
+/**
+ * Read the upload manifest of a remote directory (empty if missing or unreadable)
+ */
+export async function readManifest(sftp: SFTPWrapper, remotePath: string): Promise<UploadManifest> {
+  try {
+    const content = await sftpCall<Buffer>((cb) =>
+      sftp.readFile(getStatePath(remotePath, MANIFEST_FILE), cb)
+    );
+    const manifest = JSON.parse(content.toString("utf-8")) as UploadManifest;
+    if (manifest.version === 1 && manifest.files) {
+      return manifest;
+    }
+  } catch {
+    // No manifest yet
+  }
+  return { version: 1, files: {} };
+}
+
+/**
+ * Replace a remote file (or symlink) with an uploaded temp file
+ * posix-rename overwrites atomically; plain SFTP rename needs the target removed first
+ */
+export async function replaceFile(sftp: SFTPWrapper, tempPath: string, path: string): Promise<void> {
+  try {
+    await sftpCall((cb) => sftp.ext_openssh_rename(tempPath, path, cb));
+  } catch {
+    await sftpCall((cb) => sftp.unlink(path, cb)).catch(() => undefined);
+    await sftpCall((cb) => sftp.rename(tempPath, path, cb));
+  }
+}
+
+/**
+ * Temp name next to the target, so the rename never crosses file systems
+ */
+function getTempPath(path: string): string {
+  return posix.join(
+    posix.dirname(path),
+    `.${posix.basename(path)}.pxnship-${randomBytes(4).toString("hex")}.tmp`
+  );
+}
+
+/**
+ * Write a remote file through a temp file, so readers never see it half written
+ * @param mode Permissions, set before any content is written (e.g. 0o600 for secrets)
+ */
+export async function writeRemoteFile(
+  sftp: SFTPWrapper,
+  path: string,
+  content: string,
+  mode?: number
+): Promise<void> {
+  const tempPath = getTempPath(path);
+
+  await ensureRemoteDir(sftp, posix.dirname(path));
+  try {
+    if (mode !== undefined) {
+      // Create it empty with the mode first; chmod in case the server applied a umask
+      await sftpCall((cb) => sftp.writeFile(tempPath, "", { mode }, cb));
+      await sftpCall((cb) => sftp.chmod(tempPath, mode, cb));
+    }
+    await sftpCall((cb) => sftp.writeFile(tempPath, content, cb));
+    await replaceFile(sftp, tempPath, path);
+  } catch (error) {
+    await sftpCall((cb) => sftp.unlink(tempPath, cb)).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Write the upload manifest of a remote directory
+ */
+export async function writeManifest(
+  sftp: SFTPWrapper,
+  remotePath: string,
+  manifest: UploadManifest
+): Promise<void> {
+  await writeRemoteFile(sftp, getStatePath(remotePath, MANIFEST_FILE), JSON.stringify(manifest));
+}
+
+/**
+ * Upload files over SFTP
+ * Unchanged files (same size and hash as in the remote manifest, same size and mtime
+ * on the server) are skipped or,
+ * with linkDest, hard-linked from the previous release. Each file is written to a
+ * temp name and renamed into place, failed files are retried.
+ */
+export async function uploadFilesWithSFTP(
+  ssh: SSHTarget,
+  files: SFTPFile[],
+  remotePath: string,
+  options: SFTPUploadOptions = {}
+): Promise<SFTPUploadResult> {
+  const { concurrency = 4, retries = 2, bandwidthLimit, compress, linkDest, dryRun, force, onProgress } =
+    options;
+  const result: SFTPUploadResult = {
+    uploaded: 0,
+    skipped: 0,
+    linked: 0,
+    bytesTransferred: 0,
+    failed: [],
+    changes: [],
+  };
+
+  let conn: SSHSession | null = null;
+
+  try {
+    const connection = await connectTarget(ssh, { compress });
+    conn = connection;
+
+    let sftp = await connection.sftp();
+    const previous = await readManifest(sftp, linkDest ?? remotePath);
+
+    // New manifest: entries of the files that end up on the server
+    const manifest: UploadManifest = {
+      version: 1,
+      files: linkDest ? {} : { ...previous.files },
+    };
+
+    // mkdir once per directory, shared by concurrent transfers
+    const dirs = new Map<string, Promise<void>>();
+    dirs.set(remotePath, dryRun ? Promise.resolve() : ensureRemoteDir(sftp, remotePath));
+
+    const ensureDir = (dir: string): Promise<void> => {
+      let pending = dirs.get(dir);
+      if (!pending) {
+        const parent = posix.dirname(dir);
+        pending = (parent === dir ? Promise.resolve() : ensureDir(parent)).then(() =>
+          sftpCall((cb) => sftp.mkdir(dir, cb)).catch(async (error: unknown) => {
+            // Already exists
+            if ((await statRemote(sftp, dir))?.isDirectory()) return;
+            dirs.delete(dir);
+            throw error;
+          })
+        );
+        dirs.set(dir, pending);
+      }
+      return pending;
+    };
+
+    const sizes = new Map(files.map((file) => [file.path, statSync(file.local).size]));
+    const bytesTotal = [...sizes.values()].reduce((sum, size) => sum + size, 0);
+    const progress = new Map<string, number>();
+    let filesDone = 0;
+
+    const throttle = bandwidthLimit ? createThrottle(bandwidthLimit * 1024) : null;
+
+    const report = (file: string) => {
+      let bytesDone = 0;
+      for (const bytes of progress.values()) bytesDone += bytes;
+      onProgress?.({ file, filesDone, filesTotal: files.length, bytesDone, bytesTotal });
+    };
+
+    // Unchanged according to the manifest, and not modified on the server since (same size
+    // and mtime). Entries of older manifests have no mtime and are uploaded once more.
+    const isUnchanged = async (path: string, entry: ManifestEntry): Promise<boolean> => {
+      const known = previous.files[path];
+      if (force || !known || known.size !== entry.size || known.hash !== entry.hash) {
+        return false;
+      }
+      if (known.mtime === undefined) {
+        return false;
+      }
+      const stats = await statRemote(sftp, posix.join(linkDest ?? remotePath, path));
+      if (stats?.size !== entry.size || stats.mtime !== known.mtime) {
+        return false;
+      }
+      // A hard link shares the mtime of the file it links to
+      entry.mtime = known.mtime;
+      return true;
+    };
+
+    const transfer = async (file: SFTPFile, entry: ManifestEntry) => {
+      const target = posix.join(remotePath, file.path);
+      const unchanged = await isUnchanged(file.path, entry);
+
+      if (unchanged && !linkDest) {
+        result.skipped++;
+        return;
+      }
+
+      if (dryRun) {
+        // The real run hard-links these from the previous release instead of sending them
+        if (unchanged) {
+          result.linked++;
+          return;
+        }
+        const existing = await statRemote(sftp, posix.join(linkDest ?? remotePath, file.path));
+        result.changes.push({ path: file.path, type: existing ? "changed" : "added", size: entry.size });
+        result.uploaded++;
+        result.bytesTransferred += entry.size;
+        return;
+      }
+
+      await ensureDir(posix.dirname(target));
+
+      if (unchanged && linkDest) {
+        const linked = await sftpCall((cb) =>
+          sftp.ext_openssh_hardlink(posix.join(linkDest, file.path), target, cb)
+        ).then(
+          () => true,
+          () => false
+        );
+        if (linked) {
+          result.linked++;
+          return;
+        }
+      }
+
+      const tempPath = getTempPath(target);
+      const { mode } = statSync(file.local);
+
+      const step = (transferred: number) => {
+        progress.set(file.path, transferred);
+        report(file.path);
+      };
+
+      try {
+        if (throttle) {
+          // fastPut cannot be slowed down, stream the file instead
+          const writer = sftp.createWriteStream(tempPath, { mode: mode & 0o777 });
+          // "finish" comes before the remote handle is closed
+          const closed = new Promise((resolve) => writer.once("close", resolve));
+          await pipeline(
+            createReadStream(file.local, { highWaterMark: 16 * 1024 }),
+            throttle(step),
+            writer
+          );
+          await closed;
+        } else {
+          await sftpCall((cb) =>
+            sftp.fastPut(file.local, tempPath, { mode: mode & 0o777, step }, cb)
+          );
+        }
+        await replaceFile(sftp, tempPath, target);
+      } catch (error) {
+        await sftpCall((cb) => sftp.unlink(tempPath, cb)).catch(() => undefined);
+        throw error;
+      }
+
+      entry.mtime = (await statRemote(sftp, target))?.mtime;
+      result.uploaded++;
+      result.bytesTransferred += entry.size;
+    };
+
+    await runPool(files, concurrency, async (file) => {
+      const entry: ManifestEntry = {
+        size: sizes.get(file.path) ?? 0,
+        hash: await hashFile(file.local),
+      };
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          await transfer(file, entry);
+          manifest.files[file.path] = entry;
+          break;
+        } catch (error) {
+          if (attempt < retries) {
+            await new Promise((resolve) => setTimeout(resolve, 500 * (attempt + 1)));
+            // A session reconnects if the connection was lost
+            sftp = await connection.sftp().catch(() => sftp);
+            continue;
+          }
+          // Remote content is unknown now, upload it again next time
+          delete manifest.files[file.path];
+          result.failed.push({
+            path: file.path,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          break;
+        }
+      }
+
+      progress.set(file.path, sizes.get(file.path) ?? 0);
+      filesDone++;
+      report(file.path);
+    });
+
+    if (!dryRun) {
+      await writeManifest(sftp, remotePath, manifest);
+    }
+
+    return result;
+  } finally {
+    conn?.close();
+  }
+}
+
+export interface RemoteListing {
+  /** Files and symlinks, relative to the listed directory */
+  files: string[];
+  dirs: string[];
+  /** Size of each file */
+  sizes: Record<string, number>;
+}
+
+export interface PruneOptions {
+  /** Paths (relative to remotePath) that are part of the upload */
+  keep: Iterable<string>;
+  /** Patterns that are never deleted */
+  protect?: string[];
+  /** Patterns left alone, like rsync keeps excluded files */
+  exclude?: string[];
+  /** Deletes run at the same time (default: 4) */
+  concurrency?: number;
+  /** Only list what would be deleted */
+  dryRun?: boolean;
+}
+
+export interface PruneResult {
+  /** Deleted files and directories (with dryRun: what would be deleted) */
+  deleted: string[];
+  /** Stale paths kept because they match a protect pattern */
+  protected: string[];
+  failed: Array<{ path: string; error: string }>;
+  /** Size of each deleted file */
+  sizes: Record<string, number>;
+}
+
+/**
+ * List a remote directory recursively ("/" separated relative paths)
+ * A missing directory lists as empty
+ */
+export async function listRemoteFiles(sftp: SFTPWrapper, dir: string): Promise<RemoteListing> {
+  const listing: RemoteListing = { files: [], dirs: [], sizes: {} };
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await sftpCall<FileEntryWithStats[]>((cb) =>
+      sftp.readdir(posix.join(dir, relativeDir), cb)
+    ).catch(() => []);
+
+    for (const entry of entries) {
+      if (entry.filename === "." || entry.filename === "..") continue;
+
+      const path = relativeDir ? `${relativeDir}/${entry.filename}` : entry.filename;
+      if (entry.attrs.isDirectory()) {
+        listing.dirs.push(path);
+        await walk(path);
+      } else {
+        listing.files.push(path);
+        listing.sizes[path] = entry.attrs.size;
+      }
+    }
+  };
+
+  await walk("");
+  return listing;
+}
+
+/**
+ * Delete remote files under `roots` that are not part of the upload
+ * Protected and excluded paths are kept, emptied directories are removed.
+ * @param roots Directories (relative to remotePath) the upload owns, e.g. ".next/standalone"
+ */
+export async function pruneRemoteFiles(
+  ssh: SSHTarget,
+  remotePath: string,
+  roots: string[],
+  options: PruneOptions
+): Promise<PruneResult> {
+  const { protect = [], exclude = [], concurrency = 4, dryRun } = options;
+  const keep = new Set(options.keep);
+  const result: PruneResult = { deleted: [], protected: [], failed: [], sizes: {} };
+
+  // Directories that still hold uploaded files
+  const keptDirs = new Set<string>();
+  for (const path of keep) {
+    for (let dir = posix.dirname(path); dir !== "."; dir = posix.dirname(dir)) {
+      keptDirs.add(dir);
+    }
+  }
+
+  const protectFilter = createPathFilter(protect);
+  const excludeFilter = createPathFilter(exclude);
+
+  const conn = await connectTarget(ssh);
+
+  try {
+    const sftp = await conn.sftp();
+    const staleFiles: string[] = [];
+    const staleDirs: string[] = [];
+    // Listed paths that stay on the server; a directory above one of them is not removed
+    const remaining: string[] = [];
+
+    for (const root of roots) {
+      const listing = await listRemoteFiles(sftp, posix.join(remotePath, root));
+      const toPath = (path: string) => `${root}/${path}`;
+
+      for (const file of listing.files) {
+        const path = toPath(file);
+        if (keep.has(path) || excludeFilter.matchesWithin(path, false, root)) {
+          remaining.push(path);
+          continue;
+        }
+        if (protectFilter.matchesWithin(path, false, root)) {
+          result.protected.push(path);
+          remaining.push(path);
+          continue;
+        }
+        staleFiles.push(path);
+        result.sizes[path] = listing.sizes[file] ?? 0;
+      }
+
+      for (const path of listing.dirs.map(toPath)) {
+        if (
+          keptDirs.has(path) ||
+          excludeFilter.matchesWithin(path, true, root) ||
+          protectFilter.matchesWithin(path, true, root)
+        ) {
+          remaining.push(path);
+          continue;
+        }
+        staleDirs.push(path);
+      }
+    }
+
+    // Same outcome as the rmdir below: directories that would not be empty stay
+    if (dryRun) {
+      const emptied = staleDirs.filter(
+        (dir) => !remaining.some((path) => path.startsWith(`${dir}/`))
+      );
+      result.deleted.push(...staleFiles, ...emptied);
+      return result;
+    }
+
+    await runPool(staleFiles, concurrency, async (path) => {
+      try {
+        await sftpCall((cb) => sftp.unlink(posix.join(remotePath, path), cb));
+        result.deleted.push(path);
+      } catch (error) {
+        result.failed.push({ path, error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+
+    // Deepest first; a directory that still holds protected files stays
+    staleDirs.sort((a, b) => b.split("/").length - a.split("/").length);
+    for (const path of staleDirs) {
+      const removed = await sftpCall((cb) => sftp.rmdir(posix.join(remotePath, path), cb)).then(
+        () => true,
+        () => false
+      );
+      if (removed) result.deleted.push(path);
+    }
+
+    return result;
+  } finally {
+    conn.close();
+  }
+}
@@ -1,45 +1,295 @@
-import { Client, type ConnectConfig, type ClientChannel } from "ssh2";
+import { posix } from "node:path";
+// ssh2 is CommonJS: only the default export is reliable under Node's ESM loader
+import ssh2, {
+  type Client,
+  type ConnectConfig,
+  type ClientChannel,
+  type ServerHostKeyAlgorithm,
+  type SFTPWrapper,
+} from "ssh2";
+import { getHostKeyAlgorithms, verifyHostKey } from "./hostkeys.js";
 import type { SSHConfig } from "../config/schema.js";
 
-export interface SSHConnection {
-  client: Client;
+export interface ExecOptions {
+  /** Called with each stdout chunk as it arrives */
+  onStdout?: (data: string) => void;
+  /** Called with each stderr chunk as it arrives */
+  onStderr?: (data: string) => void;
+  /** Cancel the command */
+  signal?: AbortSignal;
+  /** Cancel the command after this many milliseconds */
+  timeout?: number;
+  /** Signal sent to the remote process on cancel (default: TERM) */
+  killSignal?: string;
+}
+
+export interface ExecResult {
+  stdout: string;
+  stderr: string;
+  /** Exit code, null if the process was killed by a signal or cancelled */
+  code: number | null;
+  /** Signal that ended the remote process, e.g. "TERM" */
+  exitSignal?: string;
+  /** Cancelled through the AbortSignal */
+  aborted?: boolean;
+  /** Cancelled by the timeout */
+  timedOut?: boolean;
+}
+
+/**
+ * Anything that can run remote commands: a single connection or a reconnecting session
+ */
+export interface SSHSession {
+  /** Config the session connects with */
+  config: SSHConfig;
   exec: (command: string) => Promise<{ stdout: string; stderr: string; code: number }>;
+  /** Run a command with live output, cancellation and timeout */
+  execStream: (command: string, options?: ExecOptions) => Promise<ExecResult>;
+  /** Open (once) and return the SFTP session of this connection */
+  sftp: () => Promise<SFTPWrapper>;
   close: () => void;
 }
 
+export interface SSHConnection extends SSHSession {
+  client: Client;
+}
+
 /**
- * SSH bağlantısı oluştur
+ * Where remote functions run: a config opens (and closes) its own connection,
+ * a session is reused and left open for the caller
  */
-export async function createSSHConnection(config: SSHConfig): Promise<SSHConnection> {
-  const client = new Client();
+export type SSHTarget = SSHConfig | SSHSession;
+
+export interface ConnectOptions {
+  /** Send a keepalive every N milliseconds (0 = disabled) */
+  keepaliveInterval?: number;
+  /** Drop the connection after this many unanswered keepalives */
+  keepaliveCountMax?: number;
+  /** Negotiate zlib compression (false = never, unset = ssh2 default) */
+  compress?: boolean;
+}
+
+// Keepalives for long-lived sessions (ship pipeline)
+const SESSION_KEEPALIVE: ConnectOptions = {
+  keepaliveInterval: 15_000,
+  keepaliveCountMax: 4,
+};
+
+/**
+ * Private key to offer to the server
+ * An encrypted key needs its passphrase, unless ssh-agent can authenticate instead
+ */
+function resolvePrivateKey(config: SSHConfig): string | undefined {
+  if (!config.privateKey) {
+    return undefined;
+  }
+
+  const parsed = ssh2.utils.parseKey(config.privateKey, config.passphrase);
+  if (!(parsed instanceof Error)) {
+    return config.privateKey;
+  }
+
+  if (config.agent) {
+    return undefined;
+  }
+
+  if (!config.passphrase && /encrypt|passphrase/i.test(parsed.message)) {
+    throw new Error(
+      "SSH private key is encrypted. Set ssh.passphrase (SSH_PASSPHRASE) or add the key to ssh-agent."
+    );
+  }
+  throw new Error(`Failed to read SSH private key: ${parsed.message}`);
+}
+
+/**
+ * Check whether a private key needs a passphrase to be used
+ */
+export function isPrivateKeyEncrypted(privateKey: string): boolean {
+  return ssh2.utils.parseKey(privateKey) instanceof Error;
+}
+
+/**
+ * Connect and authenticate a client, optionally over an existing stream (jump host tunnel)
+ */
+function connectClient(
+  config: SSHConfig,
+  options: ConnectOptions,
+  sock?: ClientChannel
+): Promise<Client> {
+  const client = new ssh2.Client();
+  // Set when the host key is rejected, reported instead of ssh2's generic error
+  let hostKeyError: string | undefined;
 
   const connectConfig: ConnectConfig = {
     host: config.host,
     port: config.port,
+    sock,
     username: config.user,
-    privateKey: config.privateKey,
+    privateKey: resolvePrivateKey(config),
+    passphrase: config.passphrase,
     password: config.password,
+    agent: config.agent || undefined,
+    keepaliveInterval: options.keepaliveInterval,
+    keepaliveCountMax: options.keepaliveCountMax,
+    algorithms: {
+      compress:
+        options.compress === undefined
+          ? undefined
+          : options.compress
+            ? ["zlib@openssh.com", "zlib", "none"]
+            : ["none"],
+      serverHostKey: getHostKeyAlgorithms(config) as ServerHostKeyAlgorithm[] | undefined,
+    },
+    hostVerifier: (key: Buffer) => {
+      const check = verifyHostKey(config, key);
+      hostKeyError = check.error;
+      return check.trusted;
+    },
   };
 
   return new Promise((resolve, reject) => {
-    client.on("ready", () => {
-      resolve({
-        client,
-        exec: (command: string) => execCommand(client, command),
-        close: () => client.end(),
-      });
-    });
+    client.on("ready", () => resolve(client));
 
     client.on("error", (err) => {
-      reject(new Error(`SSH connection failed: ${err.message}`));
+      reject(new Error(hostKeyError ?? `SSH connection failed: ${err.message}`));
     });
 
     client.connect(connectConfig);
   });
 }
 
+/**
+ * Open a TCP channel from a connected client to the next host
+ */
+function forwardTo(client: Client, host: string, port: number): Promise<ClientChannel> {
+  return new Promise((resolve, reject) => {
+    client.forwardOut("127.0.0.1", 0, host, port, (err, channel) => {
+      if (err) {
+        reject(new Error(`cannot reach ${host}:${port}: ${err.message}`));
+        return;
+      }
+      resolve(channel);
+    });
+  });
+}
+
+/**
+ * SSH configs of the jump hosts, in connection order
+ * A hop without its own credentials uses the key / password of the main config.
+ * Host key settings are shared; a single pinned fingerprint belongs to the target only.
+ */
+export function getJumpHosts(config: SSHConfig): SSHConfig[] {
+  return (config.jump ?? []).map((hop) => {
+    const ownAuth = Boolean(hop.privateKeyPath || hop.privateKey || hop.password);
+    const auth = ownAuth ? hop : config;
+
+    return {
+      ...config,
+      host: hop.host,
+      port: hop.port,
+      user: hop.user ?? config.user,
+      privateKeyPath: auth.privateKeyPath,
+      privateKey: auth.privateKey,
+      password: auth.password,
+      passphrase: auth.passphrase,
+      hosts: undefined,
+      jump: undefined,
+      hostFingerprint: typeof config.hostFingerprint === "object" ? config.hostFingerprint : undefined,
+    };
+  });
+}
+
+/**
+ * Connect through the jump hosts and open a tunnel to the target host
+ * @param hops Jump host configs (defaults to the config's ssh.jump)
+ * @returns The tunnel stream and a function that closes every hop
+ */
+export async function openJumpTunnel(
+  config: SSHConfig,
+  hops: SSHConfig[] = getJumpHosts(config),
+  options: ConnectOptions = {}
+): Promise<{ sock: ClientChannel; close: () => void }> {
+  const clients: Client[] = [];
+  const close = () => {
+    for (const client of [...clients].reverse()) client.end();
+  };
+
+  let sock: ClientChannel | undefined;
+
+  try {
+    for (const [index, hop] of hops.entries()) {
+      const next = hops[index + 1] ?? config;
+
+      try {
+        const client = await connectClient(hop, options, sock);
+        clients.push(client);
+        sock = await forwardTo(client, next.host, next.port);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Jump host ${hop.host}: ${message}`);
+      }
+    }
+  } catch (error) {
+    close();
+    throw error;
+  }
+
+  if (!sock) {
+    throw new Error("No jump hosts configured");
+  }
+
+  return { sock, close };
+}
+
+/**
+ * SSH bağlantısı oluştur
+ * ssh.jump ayarlıysa bağlantı jump host'lar üzerinden tünellenir
+ */
+export async function createSSHConnection(
+  config: SSHConfig,
+  options: ConnectOptions = {}
+): Promise<SSHConnection> {
+  // The tunnelled connection compresses end to end, the hops do not need to
+  const tunnel = config.jump?.length
+    ? await openJumpTunnel(config, undefined, { ...options, compress: undefined })
+    : null;
+
+  let client: Client;
+  try {
+    client = await connectClient(config, options, tunnel?.sock);
+  } catch (error) {
+    tunnel?.close();
+    throw error;
+  }
+
+  // The hops are only needed as long as the target connection
+  if (tunnel) {
+    client.once("close", tunnel.close);
+  }
+
+  let sftpSession: Promise<SFTPWrapper> | null = null;
+
+  return {
+    client,
+    config,
+    exec: (command: string) => execCommand(client, command),
+    execStream: (command: string, options?: ExecOptions) =>
+      execStreamCommand(client, command, options),
+    sftp: () => {
+      sftpSession ??= openSFTP(client);
+      return sftpSession;
+    },
+    close: () => client.end(),
+  };
+}
+
+// Exit code reported when the channel closes without an exit status (dropped connection,
+// process killed by a signal), the same code the ssh client uses for connection errors
+const NO_EXIT_STATUS = 255;
+
 /**
  * SSH üzerinden komut çalıştır
+ * A command without an exit status never counts as successful (NO_EXIT_STATUS)
  */
 function execCommand(
   client: Client,
@@ -54,9 +304,14 @@ function execCommand(
 
       let stdout = "";
       let stderr = "";
+      let exitCode: number | null = null;
+
+      stream.on("exit", (code: number | null, exitSignal?: string) => {
+        exitCode = exitSignal ? null : code;
+      });
 
-      stream.on("close", (code: number) => {
-        resolve({ stdout, stderr, code: code ?? 0 });
+      stream.on("close", () => {
+        resolve({ stdout, stderr, code: exitCode ?? NO_EXIT_STATUS });
       });
 
       stream.on("data", (data: Buffer) => {
@@ -70,6 +325,121 @@ function execCommand(
   });
 }
 
+/**
+ * Run a command, streaming output to callbacks
+ * On abort or timeout the remote process gets `killSignal` and the channel is closed.
+ * Resolves (never rejects) once the channel closes, so callers check `code`.
+ */
+function execStreamCommand(
+  client: Client,
+  command: string,
+  options: ExecOptions = {}
+): Promise<ExecResult> {
+  const { onStdout, onStderr, signal, timeout, killSignal = "TERM" } = options;
+
+  if (signal?.aborted) {
+    return Promise.resolve({ stdout: "", stderr: "", code: null, aborted: true });
+  }
+
+  return new Promise((resolve, reject) => {
+    client.exec(command, (err, stream: ClientChannel) => {
+      if (err) {
+        reject(new Error(`SSH exec failed: ${err.message}`));
+        return;
+      }
+
+      const result: ExecResult = { stdout: "", stderr: "", code: null };
+      let timer: NodeJS.Timeout | undefined;
+
+      const cancel = (reason: "aborted" | "timedOut") => {
+        result[reason] = true;
+        try {
+          stream.signal(killSignal);
+        } catch {
+          // Server does not support signals, closing the channel is enough
+        }
+        stream.close();
+      };
+      const onAbort = () => cancel("aborted");
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (timeout && timeout > 0) {
+        timer = setTimeout(() => cancel("timedOut"), timeout);
+      }
+
+      // A signal comes with a null code; never keep a code next to it
+      stream.on("exit", (code: number | null, exitSignal?: string) => {
+        result.code = exitSignal ? null : code;
+        result.exitSignal = exitSignal ?? undefined;
+      });
+
+      stream.on("close", () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        // Cancelled commands report no exit code even if one arrived late
+        if (result.aborted || result.timedOut) {
+          result.code = null;
+        }
+        resolve(result);
+      });
+
+      stream.on("data", (data: Buffer) => {
+        const text = data.toString();
+        result.stdout += text;
+        onStdout?.(text);
+      });
+
+      stream.stderr.on("data", (data: Buffer) => {
+        const text = data.toString();
+        result.stderr += text;
+        onStderr?.(text);
+      });
+    });
+  });
+}
+
+/**
+ * Describe why a streamed command failed, e.g. "timed out after 60s" or "killed by SIGTERM"
+ */
+export function describeExecFailure(result: ExecResult, timeout?: number): string {
+  if (result.timedOut) {
+    return timeout ? `timed out after ${Math.round(timeout / 1000)}s` : "timed out";
+  }
+  if (result.aborted) return "cancelled";
+  if (result.exitSignal) return `killed by SIG${result.exitSignal}`;
+  if (result.code === null) return "connection closed before the command finished";
+  return result.stderr.trim() || result.stdout.trim() || `exited with code ${result.code}`;
+}
+
+/**
+ * SFTP oturumu aç
+ */
+function openSFTP(client: Client): Promise<SFTPWrapper> {
+  return new Promise((resolve, reject) => {
+    client.sftp((err, sftp) => {
+      if (err) {
+        reject(new Error(`SFTP session failed: ${err.message}`));
+        return;
+      }
+      resolve(sftp);
+    });
+  });
+}
+
+/**
+ * Create a remote directory and its parents over SFTP (mkdir -p equivalent)
+ */
+export async function ensureRemoteDir(sftp: SFTPWrapper, dir: string): Promise<void> {
+  const parts = dir.split("/").filter((p) => p);
+  let currentPath = dir.startsWith("/") ? "/" : "";
+
+  for (const part of parts) {
+    currentPath = posix.join(currentPath, part);
+    // Directory may already exist, errors are ignored
+    await new Promise<void>((resolve) => sftp.mkdir(currentPath, () => resolve()));
+  }
+}
+
 /**
  * SSH bağlantısını test et
  */
@@ -98,3 +468,101 @@ export async function execRemoteCommand(
     conn.close();
   }
 }
+
+/**
+ * Create a session that connects on first use, keeps the connection alive and
+ * reconnects transparently when it drops. Close it when done.
+ */
+export function createSSHSession(config: SSHConfig, options: ConnectOptions = {}): SSHSession {
+  let current: Promise<SSHConnection> | null = null;
+  const dropped = new WeakSet<SSHConnection>();
+  let closed = false;
+
+  const connect = (): Promise<SSHConnection> => {
+    if (closed) {
+      return Promise.reject(new Error("SSH session is closed"));
+    }
+
+    if (!current) {
+      const pending = createSSHConnection(config, { ...SESSION_KEEPALIVE, ...options });
+      current = pending;
+
+      pending.then(
+        (conn) => {
+          conn.client.once("close", () => {
+            dropped.add(conn);
+            if (current === pending) current = null;
+          });
+        },
+        () => {
+          if (current === pending) current = null;
+        }
+      );
+    }
+
+    return current;
+  };
+
+  // Retry once on a fresh connection if the old one dropped before the call
+  // could start. Commands that already ran are never repeated.
+  const run = async <T>(fn: (conn: SSHConnection) => Promise<T>): Promise<T> => {
+    const conn = await connect();
+    try {
+      return await fn(conn);
+    } catch (error) {
+      const lost =
+        dropped.has(conn) ||
+        (error instanceof Error && /not connected|no response/i.test(error.message));
+      if (!lost || closed) throw error;
+      return fn(await connect());
+    }
+  };
+
+  return {
+    config,
+    exec: (command) => run((conn) => conn.exec(command)),
+    execStream: (command, options) => run((conn) => conn.execStream(command, options)),
+    sftp: () => run((conn) => conn.sftp()),
+    close: () => {
+      closed = true;
+      current?.then((conn) => conn.close(), () => undefined);
+      current = null;
+    },
+  };
+}
+
+/**
+ * Check whether a target is an open session rather than a config
+ */
+export function isSSHSession(target: SSHTarget): target is SSHSession {
+  return "exec" in target;
+}
+
+/**
+ * SSH config of a target (for host names, rsync, etc.)
+ */
+export function getTargetConfig(target: SSHTarget): SSHConfig {
+  return isSSHSession(target) ? target.config : target;
+}
+
+/**
+ * Connect to a target. A session is borrowed: closing the returned object
+ * leaves it open for its owner. A config gets a new connection that close() ends.
+ */
+export async function connectTarget(
+  target: SSHTarget,
+  options: ConnectOptions = {}
+): Promise<SSHSession> {
+  if (isSSHSession(target)) {
+    return { ...target, close: () => undefined };
+  }
+  return createSSHConnection(target, options);
+}
+
+/**
+ * Split a multi-host SSH config into one config per server
+ */
+export function getHostConfigs(config: SSHConfig): SSHConfig[] {
+  const hosts = config.hosts?.length ? config.hosts : [config.host];
+  return [...new Set(hosts)].map((host) => ({ ...config, host, hosts: undefined }));
+}
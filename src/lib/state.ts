@@ -0,0 +1,13 @@
+import { posix } from "node:path";
+
+/**
+ * Deploy state directory on the server (lock file, deploy history)
+ */
+export const STATE_DIR = ".pxnship";
+
+/**
+ * Path inside the deploy state directory
+ */
+export function getStatePath(remotePath: string, file: string): string {
+  return posix.join(remotePath, STATE_DIR, file);
+}
@@ -54,6 +54,29 @@ export function createLogger(): Logger {
   };
 }
 
+/**
+ * Create an output handler that prints remote command output line by line
+ * under a running spinner. Returns undefined unless verbose mode is on.
+ */
+export function createRemoteOutput(spinner?: Spinner): ((data: string) => void) | undefined {
+  if (!verboseMode) {
+    return undefined;
+  }
+
+  let buffer = "";
+  return (data: string) => {
+    buffer += data;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      // Clear the spinner line so the output does not mix with it
+      spinner?.clear();
+      console.log(pc.gray(`  │ ${line}`));
+    }
+  };
+}
+
 /**
  * Show banner
  */
@@ -67,7 +90,7 @@ export function showBanner(): void {
 /**
  * Format bytes to human readable string
  */
-function formatBytes(bytes: number): string {
+export function formatBytes(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
   if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
@@ -77,15 +100,53 @@ function formatBytes(bytes: number): string {
 /**
  * Format duration in seconds
  */
-function formatDuration(ms: number): string {
+export function formatDuration(ms: number): string {
   return `${(ms / 1000).toFixed(1)}s`;
 }
 
+/**
+ * Show rows as an aligned table
+ */
+export function showTable(headers: string[], rows: string[][]): void {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => (row[i] ?? "").length))
+  );
+  const format = (cells: string[]) =>
+    cells.map((cell, i) => cell.padEnd(widths[i] ?? 0)).join("  ").trimEnd();
+
+  console.log();
+  console.log(`  ${pc.gray(format(headers))}`);
+  for (const row of rows) {
+    console.log(`  ${format(row)}`);
+  }
+  console.log();
+}
+
+/**
+ * Show per-host results of a fleet deploy
+ */
+export function showHostResults(
+  hosts: Array<{ host: string; success: boolean; skipped?: boolean; duration: number; error?: string }>
+): void {
+  console.log();
+  for (const result of hosts) {
+    if (result.skipped) {
+      console.log(`  ${pc.gray("-")} ${result.host} ${pc.gray("skipped")}`);
+    } else if (result.success) {
+      console.log(`  ${pc.green("✔")} ${result.host} ${pc.gray(formatDuration(result.duration))}`);
+    } else {
+      console.log(`  ${pc.red("✖")} ${result.host} ${pc.red(result.error ?? "failed")}`);
+    }
+  }
+}
+
 /**
  * Show deployment summary
  */
 export function showSummary(options: {
+  target?: string;
   host: string;
+  hosts?: Array<{ host: string; success: boolean; skipped?: boolean; duration: number; error?: string }>;
   remotePath: string;
   appName: string;
   duration: number;
@@ -93,12 +154,19 @@ export function showSummary(options: {
   buildDuration?: number;
   uploadDuration?: number;
 }): void {
-  const { host, remotePath, appName, duration, bytesTransferred, buildDuration, uploadDuration } = options;
+  const { target, host, hosts, remotePath, appName, duration, bytesTransferred, buildDuration, uploadDuration } = options;
+
+  if (hosts) {
+    showHostResults(hosts);
+  }
 
   console.log();
   console.log(pc.green(pc.bold("  Deployment Complete!")));
   console.log();
-  console.log(`  ${pc.gray("Server:")}     ${host}`);
+  if (target) {
+    console.log(`  ${pc.gray("Target:")}     ${target}`);
+  }
+  console.log(`  ${pc.gray("Server:")}     ${hosts ? hosts.map((h) => h.host).join(", ") : host}`);
   console.log(`  ${pc.gray("Path:")}       ${remotePath}`);
   console.log(`  ${pc.gray("PM2 App:")}    ${appName}`);
   if (bytesTransferred) {